@@ -0,0 +1,28 @@
+const mongoose = require('mongoose');
+
+/**
+ * Error handler for the API routes - register it after them
+ * Invalid input (failed validation, malformed ids) is the client's fault and
+ * gets a 400, so clients know retrying the same request won't help.
+ * Everything else is a 500.
+ */
+module.exports = (err, req, res, next) => {
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  if (err instanceof mongoose.Error.ValidationError) {
+    const messages = Object.values(err.errors).map((e) => e.message);
+    return res.status(400).json({ error: messages.join(', ') });
+  }
+  if (err instanceof mongoose.Error.CastError) {
+    return res.status(400).json({ error: `Invalid ${err.path}: ${err.value}` });
+  }
+  // A malformed JSON body from express.json()
+  if (err.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Request body is not valid JSON' });
+  }
+
+  console.error(err);
+  res.status(err.status || 500).json({ error: 'Server error' });
+};
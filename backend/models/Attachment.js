@@ -0,0 +1,13 @@
+const mongoose = require('mongoose');
+
+// A receipt or document uploaded from the app; the app keeps its own copy in IndexedDB
+const attachmentSchema = new mongoose.Schema({
+  transactionId: { type: mongoose.Schema.Types.ObjectId, ref: 'Transaction', required: true, index: true },
+  name: { type: String, required: true, trim: true },
+  // Only types the app previews; SVG is left out because it can carry scripts
+  type: { type: String, required: true, match: /^(image\/(png|jpeg|gif|webp|heic)|application\/pdf)$/ },
+  size: { type: Number, required: true },
+  data: { type: Buffer, required: true }
+}, { timestamps: true });
+
+module.exports = mongoose.model('Attachment', attachmentSchema);
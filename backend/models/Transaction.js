@@ -1,25 +1,36 @@
 const mongoose = require('mongoose');
 
+// Category ids come from the client's category registry, which users can
+// extend, so any non-empty id is accepted
+const category = { type: String, required: true, trim: true, maxlength: 100 };
+
+// One category's share of a split transaction, in the parent's currency
+const splitLineSchema = new mongoose.Schema({
+  category,
+  amount: { type: Number, required: true },
+  memo: { type: String }
+}, { _id: false });
+
 const transactionSchema = new mongoose.Schema({
-  type: { type: String, enum: ['income', 'expense'], required: true },
+  type: { type: String, enum: ['income', 'expense', 'transfer'], required: true },
+  // Client-side account id; accounts themselves live on the device
+  accountId: { type: String, default: 'default' },
+  // Destination account of a transfer; accountId is then the source
+  toAccountId: { type: String, default: null },
   amount: { type: Number, required: true },
-  category: { 
-    type: String, 
-    enum: [
-      'Rent',
-      'Food',
-      'Transport',
-      'Entertainment',
-      'Utilities',
-      'Shopping',
-      'Health',
-      'Education',
-      'Other'
-    ], 
-    required: true 
-  },
+  currency: { type: String, default: 'USD', match: /^[A-Z]{3}$/ },
+  category,
   date: { type: Date, required: true },
-  description: { type: String }
+  description: { type: String },
+  splits: { type: [splitLineSchema], default: [] },
+  // Free-form labels, lowercase without the leading '#'
+  tags: { type: [{ type: String, trim: true, lowercase: true }], default: [] },
+  // Client-side recurring rule that generated this transaction, if any
+  recurringRuleId: { type: String, default: null },
+  // Bank-assigned id of an imported transaction (OFX FITID)
+  importId: { type: String, default: null },
+  // Client-side payee (merchant) this transaction is filed under, if any
+  payeeId: { type: String, default: null }
 });
 
 module.exports = mongoose.model('Transaction', transactionSchema);
\ No newline at end of file
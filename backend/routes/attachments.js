@@ -0,0 +1,63 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const router = express.Router();
+const Attachment = require('../models/Attachment');
+const Transaction = require('../models/Transaction');
+
+// Types the app previews, served inline; anything else is only ever downloaded
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/heic', 'application/pdf'];
+
+// Upload an attachment. The file comes base64-encoded in the JSON body.
+router.post('/', async (req, res) => {
+  const { transactionId, name, type, data } = req.body;
+  if (!transactionId || !name || !type || !data) {
+    return res.status(400).json({ error: 'Please provide transactionId, name, type and data' });
+  }
+  if (!mongoose.isValidObjectId(transactionId)) {
+    return res.status(400).json({ error: 'Invalid transactionId' });
+  }
+  if (!INLINE_TYPES.includes(type)) {
+    return res.status(400).json({ error: 'Only images and PDFs can be attached' });
+  }
+  if (!(await Transaction.exists({ _id: transactionId }))) {
+    return res.status(404).json({ error: 'Transaction not found' });
+  }
+
+  const buffer = Buffer.from(data, 'base64');
+  const attachment = new Attachment({ transactionId, name, type, size: buffer.length, data: buffer });
+  await attachment.save();
+  res.status(201).json({ _id: attachment._id, transactionId, name, type, size: attachment.size });
+});
+
+// Quoted filename for clients without RFC 5987 support; filename* carries the real one
+const contentDisposition = (disposition, name) => {
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  // encodeURIComponent leaves these alone, but RFC 5987 wants them escaped
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+// Download an attachment's file
+router.get('/:id', async (req, res) => {
+  const attachment = await Attachment.findById(req.params.id);
+  if (!attachment) {
+    return res.status(404).json({ error: 'Attachment not found' });
+  }
+  const disposition = INLINE_TYPES.includes(attachment.type) ? 'inline' : 'attachment';
+  res.type(attachment.type).set({
+    'Content-Disposition': contentDisposition(disposition, attachment.name),
+    'X-Content-Type-Options': 'nosniff'
+  });
+  res.send(attachment.data);
+});
+
+// Delete an attachment
+router.delete('/:id', async (req, res) => {
+  const attachment = await Attachment.findByIdAndDelete(req.params.id);
+  if (!attachment) {
+    return res.status(404).json({ error: 'Attachment not found' });
+  }
+  res.json({ message: 'Attachment deleted' });
+});
+
+module.exports = router;
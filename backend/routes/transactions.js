@@ -1,6 +1,7 @@
 const express = require('express');
 const router = express.Router();
 const Transaction = require('../models/Transaction');
+const Attachment = require('../models/Attachment');
 
 // Get all transactions
 router.get('/', async (req, res) => {
@@ -17,13 +18,20 @@ router.post('/', async (req, res) => {
 
 // Edit a transaction
 router.put('/:id', async (req, res) => {
-  const transaction = await Transaction.findByIdAndUpdate(req.params.id, req.body, { new: true });
+  const transaction = await Transaction.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+  if (!transaction) {
+    return res.status(404).json({ error: 'Transaction not found' });
+  }
   res.json(transaction);
 });
 
 // Delete a transaction
 router.delete('/:id', async (req, res) => {
-  await Transaction.findByIdAndDelete(req.params.id);
+  const transaction = await Transaction.findByIdAndDelete(req.params.id);
+  if (!transaction) {
+    return res.status(404).json({ error: 'Transaction not found' });
+  }
+  await Attachment.deleteMany({ transactionId: transaction._id });
   res.json({ message: 'Transaction deleted' });
 });
 
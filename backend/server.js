@@ -3,13 +3,18 @@ const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
 const transactionRoutes = require('./routes/transactions');
+const attachmentRoutes = require('./routes/attachments');
+const errorHandler = require('./middleware/errorHandler');
 
 const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Attachments arrive base64-encoded, so allow bodies well above the 100kb default
+app.use(express.json({ limit: '15mb' }));
 app.use('/api/transactions', transactionRoutes);
+app.use('/api/attachments', attachmentRoutes);
+app.use(errorHandler);
 
 // Connect to MongoDB
 mongoose.connect(process.env.MONGO_URI, { useNewUrlParser: true, useUnifiedTopology: true })
@@ -1,35 +1,81 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/context/ThemeContext";
 import { TransactionProvider } from "@/context/TransactionContext";
+import { PreferencesProvider } from "@/context/PreferencesContext";
+import { ExchangeRateProvider } from "@/context/ExchangeRateContext";
+import { AccountProvider } from "@/context/AccountContext";
+import { CategoryProvider } from "@/context/CategoryContext";
+import { CategoryRuleProvider } from "@/context/CategoryRuleContext";
+import { PayeeProvider } from "@/context/PayeeContext";
+import { RecurringProvider } from "@/context/RecurringContext";
+import { BudgetProvider } from "@/context/BudgetContext";
+import { GoalProvider } from "@/context/GoalContext";
+import { AttachmentProvider } from "@/context/AttachmentContext";
 import { Layout } from "@/components/Layout";
 import Dashboard from "./pages/Dashboard";
 import Transactions from "./pages/Transactions";
+import Duplicates from "./pages/Duplicates";
 import Analytics from "./pages/Analytics";
+import Accounts from "./pages/Accounts";
+import Recurring from "./pages/Recurring";
+import Budgets from "./pages/Budgets";
+import Categories from "./pages/Categories";
+import Goals from "./pages/Goals";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
-// Simplified App component - removed QueryClient for static mock data
+const queryClient = new QueryClient();
+
 const App = () => (
-  <ThemeProvider>
-    <TransactionProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Layout><Dashboard /></Layout>} />
-            <Route path="/transactions" element={<Layout><Transactions /></Layout>} />
-            <Route path="/analytics" element={<Layout><Analytics /></Layout>} />
-            <Route path="/settings" element={<Layout><Settings /></Layout>} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </TransactionProvider>
-  </ThemeProvider>
+  <QueryClientProvider client={queryClient}>
+    <ThemeProvider>
+      <PreferencesProvider>
+        <ExchangeRateProvider>
+          <AccountProvider>
+            <CategoryProvider>
+              <CategoryRuleProvider>
+                <PayeeProvider>
+                  <TransactionProvider>
+                    <RecurringProvider>
+                      <BudgetProvider>
+                        <GoalProvider>
+                          <AttachmentProvider>
+                            <TooltipProvider>
+                              <Toaster />
+                              <Sonner />
+                              <BrowserRouter>
+                                <Routes>
+                                  <Route path="/" element={<Layout><Dashboard /></Layout>} />
+                                  <Route path="/transactions" element={<Layout><Transactions /></Layout>} />
+                                  <Route path="/duplicates" element={<Layout><Duplicates /></Layout>} />
+                                  <Route path="/analytics" element={<Layout><Analytics /></Layout>} />
+                                  <Route path="/accounts" element={<Layout><Accounts /></Layout>} />
+                                  <Route path="/recurring" element={<Layout><Recurring /></Layout>} />
+                                  <Route path="/budgets" element={<Layout><Budgets /></Layout>} />
+                                  <Route path="/goals" element={<Layout><Goals /></Layout>} />
+                                  <Route path="/categories" element={<Layout><Categories /></Layout>} />
+                                  <Route path="/settings" element={<Layout><Settings /></Layout>} />
+                                  <Route path="*" element={<NotFound />} />
+                                </Routes>
+                              </BrowserRouter>
+                            </TooltipProvider>
+                          </AttachmentProvider>
+                        </GoalProvider>
+                      </BudgetProvider>
+                    </RecurringProvider>
+                  </TransactionProvider>
+                </PayeeProvider>
+              </CategoryRuleProvider>
+            </CategoryProvider>
+          </AccountProvider>
+        </ExchangeRateProvider>
+      </PreferencesProvider>
+    </ThemeProvider>
+  </QueryClientProvider>
 );
 
 export default App;
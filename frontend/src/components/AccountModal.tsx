@@ -0,0 +1,133 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAccounts } from "@/context/AccountContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { Account, ACCOUNT_TYPES, AccountType } from "@/lib/accounts";
+import { SUPPORTED_CURRENCIES } from "@/lib/exchangeRates";
+import { parseMoney, toInputValue } from "@/lib/money";
+
+type AccountModalProps = {
+  open: boolean;
+  onClose: () => void;
+  account?: Account | null;
+};
+
+export const AccountModal = ({ open, onClose, account }: AccountModalProps) => {
+  const { addAccount, updateAccount } = useAccounts();
+  const { baseCurrency } = usePreferences();
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("checking");
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [openingBalance, setOpeningBalance] = useState("0");
+
+  // Populate form when editing an account
+  useEffect(() => {
+    if (account) {
+      setName(account.name);
+      setType(account.type);
+      setCurrency(account.openingBalance.currency);
+      setOpeningBalance(toInputValue(account.openingBalance));
+    } else {
+      setName("");
+      setType("checking");
+      setCurrency(baseCurrency);
+      setOpeningBalance("0");
+    }
+  }, [account, open, baseCurrency]);
+
+  // Credit cards usually open with a negative balance, so any sign is allowed
+  const parsedBalance = parseMoney(openingBalance, currency);
+  const isValid = name.trim() !== "" && parsedBalance !== null;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    const values = { name: name.trim(), type, openingBalance: parsedBalance };
+    if (account) {
+      updateAccount({ ...account, ...values });
+    } else {
+      addAccount(values);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{account ? "Edit Account" : "Add Account"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Name</Label>
+            <Input
+              id="account-name"
+              placeholder="e.g. Everyday Checking"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-type">Type</Label>
+              <Select value={type} onValueChange={(value: AccountType) => setType(value)}>
+                <SelectTrigger id="account-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCOUNT_TYPES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="account-currency">Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="account-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="opening-balance">Opening Balance ({currency})</Label>
+            <Input
+              id="opening-balance"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={openingBalance}
+              onChange={(e) => setOpeningBalance(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            {account ? "Update" : "Add Account"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
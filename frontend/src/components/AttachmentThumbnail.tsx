@@ -0,0 +1,44 @@
+import { FileText, X } from "lucide-react";
+import { useObjectUrl } from "@/hooks/use-object-url";
+import { AttachmentFile, isImage } from "@/lib/attachments";
+
+type AttachmentThumbnailProps = {
+  file: AttachmentFile;
+  onOpen: () => void;
+  onRemove?: () => void;
+};
+
+// Square preview of an image, or a document icon for PDFs
+export const AttachmentThumbnail = ({ file, onOpen, onRemove }: AttachmentThumbnailProps) => {
+  const url = useObjectUrl(isImage(file) ? file.blob : null);
+
+  return (
+    <div className="group relative h-20 w-20 shrink-0">
+      <button
+        type="button"
+        title={file.name}
+        className="flex h-full w-full items-center justify-center overflow-hidden rounded-md border bg-muted hover:ring-2 hover:ring-ring"
+        onClick={onOpen}
+      >
+        {url ? (
+          <img src={url} alt={file.name} className="h-full w-full object-cover" />
+        ) : (
+          <span className="flex flex-col items-center gap-1 px-1 text-muted-foreground">
+            <FileText className="h-6 w-6" />
+            <span className="w-full truncate text-[10px]">{file.name}</span>
+          </span>
+        )}
+      </button>
+      {onRemove && (
+        <button
+          type="button"
+          aria-label={`Remove ${file.name}`}
+          className="absolute -right-1.5 -top-1.5 rounded-full border bg-background p-0.5 text-muted-foreground hover:text-destructive"
+          onClick={onRemove}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useAttachments } from "@/context/AttachmentContext";
+import { useObjectUrl } from "@/hooks/use-object-url";
+import { toast } from "@/hooks/use-toast";
+import { Attachment, AttachmentFile, formatFileSize, isImage, isPdf } from "@/lib/attachments";
+import { CloudUpload, Download } from "lucide-react";
+
+type AttachmentViewerProps = {
+  open: boolean;
+  onClose: () => void;
+  file: AttachmentFile | null;
+  // Set for saved attachments, which can be uploaded
+  attachment?: Attachment;
+};
+
+// Full-size view of an image or PDF attachment
+export const AttachmentViewer = ({ open, onClose, file, attachment }: AttachmentViewerProps) => {
+  const { uploadAttachment } = useAttachments();
+  const [uploading, setUploading] = useState(false);
+  const url = useObjectUrl(file?.blob ?? null);
+
+  const handleUpload = async () => {
+    if (!attachment) return;
+    setUploading(true);
+    try {
+      await uploadAttachment(attachment.id);
+      toast({ title: "Attachment uploaded", description: `${attachment.name} is backed up on the server.` });
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Could not upload the attachment.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{file?.name}</DialogTitle>
+          <DialogDescription>
+            {file && formatFileSize(file.size)}
+            {attachment?.remoteId && " · Uploaded"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {file && url && (
+          <div className="flex justify-center">
+            {isImage(file) ? (
+              <img src={url} alt={file.name} className="max-h-[70vh] w-auto rounded-md object-contain" />
+            ) : isPdf(file) ? (
+              <iframe src={url} title={file.name} className="h-[70vh] w-full rounded-md border" />
+            ) : (
+              <p className="py-8 text-sm text-muted-foreground">
+                No preview for this file type. Download it to open it.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          {attachment && !attachment.remoteId && (
+            <Button variant="outline" onClick={handleUpload} disabled={uploading}>
+              <CloudUpload className="h-4 w-4 mr-2" />
+              {uploading ? "Uploading..." : "Upload to Server"}
+            </Button>
+          )}
+          {file && url && (
+            <Button variant="outline" asChild>
+              <a href={url} download={file.name}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </a>
+            </Button>
+          )}
+          <Button onClick={onClose}>Close</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,99 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AttachmentThumbnail } from "@/components/AttachmentThumbnail";
+import { AttachmentViewer } from "@/components/AttachmentViewer";
+import { toast } from "@/hooks/use-toast";
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  Attachment,
+  AttachmentFile,
+  attachmentError,
+  toAttachmentFile,
+} from "@/lib/attachments";
+
+type AttachmentsFieldProps = {
+  // Attachments already saved on the transaction
+  saved: Attachment[];
+  // Files picked in this form, saved with the transaction
+  pending: File[];
+  onAdd: (files: File[]) => void;
+  onRemoveSaved: (id: string) => void;
+  onRemovePending: (index: number) => void;
+  // Blocks picking new files, with the reason shown in its place
+  disabledReason?: string;
+};
+
+export const AttachmentsField = ({
+  saved,
+  pending,
+  onAdd,
+  onRemoveSaved,
+  onRemovePending,
+  disabledReason,
+}: AttachmentsFieldProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [viewing, setViewing] = useState<{ file: AttachmentFile; attachment?: Attachment } | null>(null);
+
+  const handlePick = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const rejected = files.map(attachmentError).filter((error): error is string => error !== null);
+    if (rejected.length > 0) {
+      toast({ title: "Some files were skipped", description: rejected.join(". "), variant: "destructive" });
+    }
+    onAdd(files.filter((file) => attachmentError(file) === null));
+  };
+
+  return (
+    <div className="space-y-2">
+      {(saved.length > 0 || pending.length > 0) && (
+        <div className="flex flex-wrap gap-3 pt-1">
+          {saved.map((attachment) => (
+            <AttachmentThumbnail
+              key={attachment.id}
+              file={attachment}
+              onOpen={() => setViewing({ file: attachment, attachment })}
+              onRemove={() => onRemoveSaved(attachment.id)}
+            />
+          ))}
+          {pending.map((file, index) => (
+            <AttachmentThumbnail
+              key={`${file.name}-${index}`}
+              file={toAttachmentFile(file)}
+              onOpen={() => setViewing({ file: toAttachmentFile(file) })}
+              onRemove={() => onRemovePending(index)}
+            />
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_ATTACHMENT_TYPES}
+        multiple
+        className="hidden"
+        onChange={handlePick}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={disabledReason !== undefined}
+        onClick={() => inputRef.current?.click()}
+      >
+        <Paperclip className="h-4 w-4 mr-2" />
+        Attach Receipt or PDF
+      </Button>
+      {disabledReason && <p className="text-xs text-muted-foreground">{disabledReason}</p>}
+
+      <AttachmentViewer
+        open={viewing !== null}
+        onClose={() => setViewing(null)}
+        file={viewing?.file ?? null}
+        attachment={viewing?.attachment}
+      />
+    </div>
+  );
+};
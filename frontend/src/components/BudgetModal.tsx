@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBudgets } from "@/context/BudgetContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { useCategories } from "@/context/CategoryContext";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { Budget } from "@/lib/budgets";
+import { categoriesFor } from "@/lib/categories";
+import { parseMoney, toInputValue } from "@/lib/money";
+
+type BudgetModalProps = {
+  open: boolean;
+  onClose: () => void;
+  budget?: Budget | null;
+};
+
+export const BudgetModal = ({ open, onClose, budget }: BudgetModalProps) => {
+  const { budgets, addBudget, updateBudget } = useBudgets();
+  const { baseCurrency } = usePreferences();
+  const { categories } = useCategories();
+  const [category, setCategory] = useState("");
+  const [limit, setLimit] = useState("");
+
+  // Populate form when editing a budget
+  useEffect(() => {
+    setCategory(budget?.category ?? "");
+    setLimit(budget ? toInputValue(budget.limit) : "");
+  }, [budget, open]);
+
+  // Existing budgets keep their currency; new ones use the base currency
+  const currency = budget?.limit.currency ?? baseCurrency;
+  const parsedLimit = parseMoney(limit, currency);
+  // One budget per category
+  const available = categoriesFor(categories, "expense", budget ? [budget.category] : []).filter(
+    (cat) => cat.id === budget?.category || !budgets.some((b) => b.category === cat.id),
+  );
+  const isValid = category !== "" && parsedLimit !== null && parsedLimit.amount > 0;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    if (budget) {
+      updateBudget({ ...budget, category, limit: parsedLimit });
+    } else {
+      addBudget({ category, limit: parsedLimit });
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{budget ? "Edit Budget" : "Add Budget"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="budget-category">Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger id="budget-category">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                <CategoryOptions categories={available} />
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-limit">Monthly Limit ({currency})</Label>
+            <Input
+              id="budget-limit"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            {budget ? "Update" : "Add Budget"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,16 @@
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { BudgetStatus } from "@/lib/budgets";
+
+// Bar coloured by how close the budget is to its limit
+export const BudgetProgress = ({ status, className }: { status: BudgetStatus; className?: string }) => (
+  <Progress
+    value={Math.min(status.percentUsed, 100)}
+    className={cn(
+      "h-2",
+      status.state === "over" && "[&>div]:bg-destructive",
+      status.state === "warning" && "[&>div]:bg-yellow-500",
+      className,
+    )}
+  />
+);
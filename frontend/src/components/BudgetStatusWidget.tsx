@@ -0,0 +1,59 @@
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import { useBudgets } from "@/context/BudgetContext";
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { formatMoney } from "@/lib/money";
+
+// Compact view of this month's budgets for the dashboard, closest to the limit first
+export const BudgetStatusWidget = ({ delay = 0 }: { delay?: number }) => {
+  const { statuses } = useBudgets();
+  const top = [...statuses].sort((a, b) => b.percentUsed - a.percentUsed).slice(0, 4);
+  const overCount = statuses.filter((s) => s.state === "over").length;
+
+  return (
+    <motion.div
+      className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Budgets</h3>
+          {statuses.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {overCount === 0 ? "All within limits" : `${overCount} over limit`} this month
+            </p>
+          )}
+        </div>
+        <Link to="/budgets" className="text-sm font-medium text-primary hover:underline">
+          View all
+        </Link>
+      </div>
+
+      {top.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No budgets set.{" "}
+          <Link to="/budgets" className="font-medium underline">
+            Create one
+          </Link>
+        </p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {top.map((status) => (
+            <div key={status.budget.id} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <CategoryLabel id={status.budget.category} className="font-medium" />
+                <span className="text-muted-foreground">
+                  {formatMoney(status.spent, { compact: true })} / {formatMoney(status.budget.limit, { compact: true })}
+                </span>
+              </div>
+              <BudgetProgress status={status} />
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,26 @@
+import { useCategories } from "@/context/CategoryContext";
+import { categoryIcon } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+
+// Icon in the category's color followed by its name
+export const CategoryLabel = ({ id, className }: { id: string; className?: string }) => {
+  const { getCategory } = useCategories();
+  const category = getCategory(id);
+  const Icon = categoryIcon(category);
+
+  return (
+    <span className={cn("inline-flex items-center gap-1.5", className)}>
+      <Icon className="h-3.5 w-3.5 shrink-0" style={{ color: category.color }} />
+      <span>{category.name}</span>
+    </span>
+  );
+};
+
+// All categories of a (possibly split) transaction
+export const CategoryList = ({ ids }: { ids: string[] }) => (
+  <span className="flex flex-wrap gap-x-3 gap-y-1">
+    {ids.map((id) => (
+      <CategoryLabel key={id} id={id} />
+    ))}
+  </span>
+);
@@ -0,0 +1,172 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/context/CategoryContext";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { Category, CATEGORY_COLORS, CATEGORY_ICONS, CATEGORY_KINDS, CategoryKind } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+
+const NO_PARENT = "none";
+
+type CategoryModalProps = {
+  open: boolean;
+  onClose: () => void;
+  category?: Category | null;
+};
+
+export const CategoryModal = ({ open, onClose, category }: CategoryModalProps) => {
+  const { categories, addCategory, updateCategory } = useCategories();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<CategoryKind>("expense");
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState("tag");
+  const [parentId, setParentId] = useState(NO_PARENT);
+
+  // Populate form when editing a category
+  useEffect(() => {
+    setName(category?.name ?? "");
+    setKind(category?.kind ?? "expense");
+    setColor(category?.color ?? CATEGORY_COLORS[0]);
+    setIcon(category?.icon ?? "tag");
+    setParentId(category?.parentId ?? NO_PARENT);
+  }, [category, open]);
+
+  // Only one level of nesting: parents are top-level, and a category that
+  // already has subcategories can't become one
+  const hasChildren = !!category && categories.some((c) => c.parentId === category.id);
+  const parents = categories.filter((c) => !c.parentId && !c.archived && c.id !== category?.id);
+  const parent = categories.find((c) => c.id === parentId);
+
+  const trimmed = name.trim();
+  const duplicate = categories.some(
+    (c) => c.id !== category?.id && c.name.toLowerCase() === trimmed.toLowerCase(),
+  );
+  const isValid = trimmed !== "" && !duplicate;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    // Subcategories share their parent's kind
+    const values = { name: trimmed, kind: parent?.kind ?? kind, color, icon, parentId: parent?.id };
+    if (category) {
+      updateCategory({ ...category, ...values });
+    } else {
+      addCategory(values);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{category ? "Edit Category" : "Add Category"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="category-name">Name</Label>
+            <Input
+              id="category-name"
+              placeholder="e.g. Groceries"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            {duplicate && <p className="text-sm text-destructive">A category with this name already exists.</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-parent">Parent</Label>
+            <Select value={parentId} onValueChange={setParentId} disabled={hasChildren}>
+              <SelectTrigger id="category-parent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>None (top-level)</SelectItem>
+                {parents.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    <CategoryLabel id={c.id} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasChildren && (
+              <p className="text-xs text-muted-foreground">Categories with subcategories stay top-level.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-kind">Used For</Label>
+            <Select
+              value={parent?.kind ?? kind}
+              onValueChange={(value) => setKind(value as CategoryKind)}
+              disabled={!!parent}
+            >
+              <SelectTrigger id="category-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CATEGORY_KINDS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map((swatch) => (
+                <button
+                  key={swatch}
+                  type="button"
+                  aria-label={swatch}
+                  className={cn(
+                    "h-7 w-7 rounded-full border-2 transition-transform",
+                    swatch === color ? "border-foreground scale-110" : "border-transparent",
+                  )}
+                  style={{ backgroundColor: swatch }}
+                  onClick={() => setColor(swatch)}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="grid grid-cols-7 gap-2">
+              {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  type="button"
+                  aria-label={key}
+                  className={cn(
+                    "flex h-9 w-9 items-center justify-center rounded-md border transition-colors",
+                    key === icon ? "border-primary bg-accent" : "border-transparent hover:bg-accent/50",
+                  )}
+                  onClick={() => setIcon(key)}
+                >
+                  <Icon className="h-4 w-4" style={{ color }} />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            {category ? "Update" : "Add Category"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
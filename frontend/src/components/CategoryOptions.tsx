@@ -0,0 +1,22 @@
+import { Fragment } from "react";
+import { SelectItem } from "@/components/ui/select";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { Category, categoryTree } from "@/lib/categories";
+
+// Select items for a category picker: each parent followed by its subcategories, indented
+export const CategoryOptions = ({ categories }: { categories: Category[] }) => (
+  <>
+    {categoryTree(categories).map(({ category, children }) => (
+      <Fragment key={category.id}>
+        <SelectItem value={category.id}>
+          <CategoryLabel id={category.id} />
+        </SelectItem>
+        {children.map((child) => (
+          <SelectItem key={child.id} value={child.id} className="pl-12">
+            <CategoryLabel id={child.id} />
+          </SelectItem>
+        ))}
+      </Fragment>
+    ))}
+  </>
+);
@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { CategoryList } from "@/components/CategoryLabel";
+import { TagInput } from "@/components/TagInput";
+import { useCategories } from "@/context/CategoryContext";
+import { useCategoryRules } from "@/context/CategoryRuleContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { categoriesFor } from "@/lib/categories";
+import { formatMoney } from "@/lib/money";
+import {
+  applyCategoryRule,
+  CategoryRule,
+  CategoryRuleInput,
+  DESCRIPTION_MATCHES,
+  DescriptionMatch,
+  hasCondition,
+  matchesRule,
+  patternError,
+} from "@/lib/rules";
+import { transactionCategories } from "@/lib/splits";
+import { collectTags } from "@/lib/tags";
+
+const ANY_TYPE = "any";
+const PREVIEW_LIMIT = 5;
+
+type CategoryRuleModalProps = {
+  open: boolean;
+  onClose: () => void;
+  rule?: CategoryRule | null;
+};
+
+// Empty means no bound; anything else must be a non-negative number
+const parseBound = (value: string): number | undefined | null => {
+  if (value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export const CategoryRuleModal = ({ open, onClose, rule }: CategoryRuleModalProps) => {
+  const { addCategoryRule, updateCategoryRule } = useCategoryRules();
+  const { categories: registry, getCategory } = useCategories();
+  const { transactions, updateTransaction } = useTransactions();
+  const [name, setName] = useState("");
+  const [descriptionMatch, setDescriptionMatch] = useState<DescriptionMatch>("contains");
+  const [descriptionPattern, setDescriptionPattern] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [type, setType] = useState(ANY_TYPE);
+  const [category, setCategory] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [applyToExisting, setApplyToExisting] = useState(false);
+
+  // Populate form when editing a rule
+  useEffect(() => {
+    setName(rule?.name ?? "");
+    setDescriptionMatch(rule?.descriptionMatch ?? "contains");
+    setDescriptionPattern(rule?.descriptionPattern ?? "");
+    setMinAmount(rule?.minAmount?.toString() ?? "");
+    setMaxAmount(rule?.maxAmount?.toString() ?? "");
+    setType(rule?.type ?? ANY_TYPE);
+    setCategory(rule?.category ?? "");
+    setTags(rule?.tags ?? []);
+    setApplyToExisting(false);
+  }, [rule, open]);
+
+  // Archived categories stay selectable on the rule that already uses them
+  const keep = rule ? [rule.category] : [];
+  const categories =
+    type === ANY_TYPE
+      ? registry.filter((c) => !c.archived || keep.includes(c.id))
+      : categoriesFor(registry, type as "income" | "expense", keep);
+  const selected = registry.find((c) => c.id === category);
+
+  const min = parseBound(minAmount);
+  const max = parseBound(maxAmount);
+  const amountError =
+    min === null || max === null
+      ? "Amounts must be positive numbers"
+      : min !== undefined && max !== undefined && min > max
+        ? "The minimum is above the maximum"
+        : null;
+
+  // A category that only fits one type narrows the rule to that type
+  const ruleType =
+    type !== ANY_TYPE
+      ? (type as "income" | "expense")
+      : selected && selected.kind !== "both" ? selected.kind : undefined;
+  const values: CategoryRuleInput = {
+    name: name.trim() || descriptionPattern.trim() || (selected?.name ?? ""),
+    enabled: rule?.enabled ?? true,
+    descriptionMatch,
+    descriptionPattern: descriptionPattern.trim(),
+    minAmount: min ?? undefined,
+    maxAmount: max ?? undefined,
+    type: ruleType,
+    category,
+    tags,
+  };
+  const draft: CategoryRule = { ...values, id: rule?.id ?? "", priority: rule?.priority ?? 0 };
+
+  const invalidPattern = patternError(draft);
+  const isValid = category !== "" && !amountError && !invalidPattern && hasCondition(draft);
+
+  // Preview against what is already recorded; split transactions keep their lines
+  const matches = isValid ? transactions.filter((t) => matchesRule(draft, t)) : [];
+  const changes = isValid
+    ? transactions.flatMap((t) => {
+        const updated = applyCategoryRule(draft, t);
+        return updated ? [updated] : [];
+      })
+    : [];
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    if (rule) {
+      updateCategoryRule({ ...rule, ...values });
+    } else {
+      addCategoryRule(values);
+    }
+    if (applyToExisting) changes.forEach(updateTransaction);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit Rule" : "Add Rule"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              placeholder="e.g. Coffee shops"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-pattern">Description</Label>
+            <div className="flex gap-2">
+              <Select value={descriptionMatch} onValueChange={(v) => setDescriptionMatch(v as DescriptionMatch)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DESCRIPTION_MATCHES.map((m) => (
+                    <SelectItem key={m.value} value={m.value}>
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                id="rule-pattern"
+                placeholder={descriptionMatch === "regex" ? "e.g. ^(uber|lyft)" : "e.g. starbucks"}
+                value={descriptionPattern}
+                onChange={(e) => setDescriptionPattern(e.target.value)}
+              />
+            </div>
+            {invalidPattern && <p className="text-sm text-destructive">{invalidPattern}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-min">Amount From</Label>
+              <Input
+                id="rule-min"
+                inputMode="decimal"
+                placeholder="Any"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max">Amount To</Label>
+              <Input
+                id="rule-max"
+                inputMode="decimal"
+                placeholder="Any"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          {amountError && <p className="text-sm text-destructive">{amountError}</p>}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-type">Type</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => {
+                  setType(value);
+                  setCategory("");
+                }}
+              >
+                <SelectTrigger id="rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_TYPE}>Any</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                  <SelectItem value="expense">Expense</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-category">Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger id="rule-category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <CategoryOptions categories={categories} />
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {type === ANY_TYPE && ruleType && (
+            <p className="text-xs text-muted-foreground">
+              {selected?.name} is an {ruleType} category, so the rule only applies to {ruleType}s.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-tags">Add Tags</Label>
+            <TagInput id="rule-tags" tags={tags} onChange={setTags} suggestions={collectTags(transactions)} />
+          </div>
+
+          {category !== "" && !hasCondition(draft) && (
+            <p className="text-sm text-muted-foreground">Set at least one condition for the rule to apply.</p>
+          )}
+
+          {isValid && (
+            <div className="space-y-2 rounded-md border p-3">
+              <p className="text-sm font-medium">
+                Matches {matches.length} existing transaction{matches.length === 1 ? "" : "s"}
+              </p>
+              {matches.slice(0, PREVIEW_LIMIT).map((t) => (
+                <div key={t.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">
+                    {t.date} · {t.description || "No description"}
+                  </span>
+                  <span className="flex shrink-0 items-center gap-2 text-muted-foreground">
+                    <CategoryList ids={transactionCategories(t)} />
+                    {formatMoney(t.amount)}
+                  </span>
+                </div>
+              ))}
+              {matches.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground">and {matches.length - PREVIEW_LIMIT} more</p>
+              )}
+              {changes.length > 0 && (
+                <label className="flex items-center gap-2 pt-2 text-sm">
+                  <Checkbox checked={applyToExisting} onCheckedChange={(v) => setApplyToExisting(v === true)} />
+                  Also update {changes.length} of them to {getCategory(category).name}
+                  {tags.length > 0 && " and its tags"}
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            {rule ? "Update" : "Add Rule"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
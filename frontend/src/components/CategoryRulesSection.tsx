@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2, Wand2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { CategoryRuleModal } from "@/components/CategoryRuleModal";
+import { DeleteConfirmationDialog } from "@/components/DeleteConfirmationDialog";
+import { useCategoryRules } from "@/context/CategoryRuleContext";
+import { CategoryRule, describeConditions } from "@/lib/rules";
+import { formatTag } from "@/lib/tags";
+
+// Amounts are in each transaction's own currency, so they're shown without a symbol
+const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Settings card listing the auto-categorization rules in the order they're tried
+export const CategoryRulesSection = () => {
+  const { categoryRules, updateCategoryRule, deleteCategoryRule, moveCategoryRule } = useCategoryRules();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<CategoryRule | null>(null);
+
+  const handleEdit = (rule: CategoryRule) => {
+    setSelectedRule(rule);
+    setModalOpen(true);
+  };
+
+  const handleDeleteClick = (rule: CategoryRule) => {
+    setSelectedRule(rule);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (selectedRule) deleteCategoryRule(selectedRule.id);
+    setDeleteDialogOpen(false);
+    setSelectedRule(null);
+  };
+
+  return (
+    <motion.div
+      className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.38 }}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <Wand2 className="h-8 w-8 text-muted-foreground" />
+          <div>
+            <h3 className="text-lg font-semibold">Categorization Rules</h3>
+            <p className="text-sm text-muted-foreground">
+              Pick a category for new and imported transactions. The first matching rule wins.
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            setSelectedRule(null);
+            setModalOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      {categoryRules.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No rules yet. Add one to file transactions like "Starbucks" under Dining automatically.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {categoryRules.map((rule, index) => (
+            <div key={rule.id} className="flex items-center gap-3 py-3">
+              <div className="flex flex-col">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveCategoryRule(rule.id, "up")}
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label="Move down"
+                  disabled={index === categoryRules.length - 1}
+                  onClick={() => moveCategoryRule(rule.id, "down")}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+
+              <div className={`min-w-0 flex-1 space-y-1 ${rule.enabled ? "" : "opacity-50"}`}>
+                <p className="font-medium truncate">{rule.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  When {describeConditions(rule, formatAmount)} →{" "}
+                  <CategoryLabel id={rule.category} className="text-foreground" />
+                  {rule.tags.length > 0 && ` ${rule.tags.map(formatTag).join(" ")}`}
+                </p>
+              </div>
+
+              <Switch
+                checked={rule.enabled}
+                aria-label={rule.enabled ? "Disable rule" : "Enable rule"}
+                onCheckedChange={(enabled) => updateCategoryRule({ ...rule, enabled })}
+              />
+              <div className="flex items-center space-x-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                  onClick={() => handleEdit(rule)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDeleteClick(rule)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CategoryRuleModal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setSelectedRule(null);
+        }}
+        rule={selectedRule}
+      />
+
+      <DeleteConfirmationDialog
+        open={deleteDialogOpen}
+        onClose={() => {
+          setDeleteDialogOpen(false);
+          setSelectedRule(null);
+        }}
+        onConfirm={handleDeleteConfirm}
+        transactionDescription={selectedRule?.name}
+        itemType="rule"
+      />
+    </motion.div>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useGoals } from "@/context/GoalContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { useCategories } from "@/context/CategoryContext";
+import { Goal } from "@/lib/goals";
+import { formatMoney, parseMoney, toInputValue } from "@/lib/money";
+
+type ContributionModalProps = {
+  open: boolean;
+  onClose: () => void;
+  goal: Goal | null;
+};
+
+const NO_TRANSACTION = "none";
+// How many of the latest transactions are offered for linking
+const LINKABLE_COUNT = 50;
+
+export const ContributionModal = ({ open, onClose, goal }: ContributionModalProps) => {
+  const { addContribution } = useGoals();
+  const { transactions } = useTransactions();
+  const { getCategory } = useCategories();
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [transactionId, setTransactionId] = useState(NO_TRANSACTION);
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    setAmount("");
+    setDate(new Date().toISOString().split("T")[0]);
+    setTransactionId(NO_TRANSACTION);
+    setNote("");
+  }, [goal, open]);
+
+  if (!goal) return null;
+
+  const { currency } = goal.target;
+  const parsedAmount = parseMoney(amount, currency);
+  const isValid = parsedAmount !== null && parsedAmount.amount !== 0 && date !== "";
+
+  // Linking a transaction copies its date, and its amount when the currencies match
+  const handleLink = (id: string) => {
+    setTransactionId(id);
+    const linked = transactions.find((t) => t.id === id);
+    if (!linked) return;
+    setDate(linked.date);
+    if (linked.amount.currency === currency) setAmount(toInputValue(linked.amount));
+    if (!note) setNote(linked.description);
+  };
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    addContribution({
+      goalId: goal.id,
+      amount: parsedAmount,
+      date,
+      transactionId: transactionId === NO_TRANSACTION ? undefined : transactionId,
+      note: note.trim() || undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Add Contribution to {goal.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="contribution-transaction">Linked Transaction</Label>
+            <Select value={transactionId} onValueChange={handleLink}>
+              <SelectTrigger id="contribution-transaction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TRANSACTION}>None</SelectItem>
+                {transactions.slice(0, LINKABLE_COUNT).map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.date} · {t.description || getCategory(t.category).name} · {formatMoney(t.amount)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              {/* Negative amounts record a withdrawal from the goal */}
+              <Label htmlFor="contribution-amount">Amount ({currency})</Label>
+              <Input
+                id="contribution-amount"
+                inputMode="decimal"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="contribution-date">Date</Label>
+              <Input
+                id="contribution-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contribution-note">Note</Label>
+            <Input
+              id="contribution-note"
+              placeholder="Optional"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            Add Contribution
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
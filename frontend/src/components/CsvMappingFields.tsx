@@ -0,0 +1,161 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CSV_DELIMITERS } from "@/lib/csv";
+import { AmountMode, CsvFile, CsvMapping, DATE_FORMATS, DECIMAL_SEPARATORS, DateFormat, DecimalSeparator } from "@/lib/csvImport";
+
+type CsvMappingFieldsProps = {
+  file: CsvFile;
+  mapping: CsvMapping;
+  onChange: (mapping: CsvMapping) => void;
+};
+
+const NO_COLUMN = "none";
+
+type ColumnSelectProps = {
+  id: string;
+  label: string;
+  file: CsvFile;
+  value: number | null;
+  onChange: (value: number | null) => void;
+  optional?: boolean;
+};
+
+// Column choices show the header plus the first row's value, so files without
+// a header row can still be mapped
+const ColumnSelect = ({ id, label, file, value, onChange, optional }: ColumnSelectProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Select
+      value={value === null ? NO_COLUMN : String(value)}
+      onValueChange={(v) => onChange(v === NO_COLUMN ? null : Number(v))}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Choose a column" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_COLUMN}>{optional ? "Not in file" : "Choose a column"}</SelectItem>
+        {file.headers.map((header, i) => (
+          <SelectItem key={i} value={String(i)}>
+            {header}
+            {file.rows[0]?.[i] && <span className="ml-2 text-muted-foreground">e.g. {file.rows[0][i]}</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export const CsvMappingFields = ({ file, mapping, onChange }: CsvMappingFieldsProps) => {
+  const set = <K extends keyof CsvMapping>(key: K, value: CsvMapping[K]) => onChange({ ...mapping, [key]: value });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="csv-delimiter">Delimiter</Label>
+          <Select value={mapping.delimiter} onValueChange={(v) => set("delimiter", v)}>
+            <SelectTrigger id="csv-delimiter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_DELIMITERS.map((d) => (
+                <SelectItem key={d.value} value={d.value}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-end justify-between space-x-2 pb-2">
+          <Label htmlFor="csv-header">First row is a header</Label>
+          <Switch id="csv-header" checked={mapping.hasHeader} onCheckedChange={(v) => set("hasHeader", v)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="csv-date-format">Date Format</Label>
+          <Select value={mapping.dateFormat} onValueChange={(v) => set("dateFormat", v as DateFormat)}>
+            <SelectTrigger id="csv-date-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMATS.map((f) => (
+                <SelectItem key={f.value} value={f.value}>
+                  {f.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="csv-decimal">Decimal Separator</Label>
+          <Select value={mapping.decimal} onValueChange={(v) => set("decimal", v as DecimalSeparator)}>
+            <SelectTrigger id="csv-decimal">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DECIMAL_SEPARATORS.map((d) => (
+                <SelectItem key={d.value} value={d.value}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <ColumnSelect id="csv-date" label="Date" file={file} value={mapping.date} onChange={(v) => set("date", v)} />
+        <ColumnSelect
+          id="csv-description"
+          label="Description"
+          file={file}
+          value={mapping.description}
+          onChange={(v) => set("description", v)}
+          optional
+        />
+        <div className="col-span-2 space-y-2">
+          <Label htmlFor="csv-amount-mode">Amounts</Label>
+          <Select value={mapping.amountMode} onValueChange={(v) => set("amountMode", v as AmountMode)}>
+            <SelectTrigger id="csv-amount-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="signed">One column, negative for money out</SelectItem>
+              <SelectItem value="split">Separate debit and credit columns</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {mapping.amountMode === "signed" ? (
+          <ColumnSelect id="csv-amount" label="Amount" file={file} value={mapping.amount} onChange={(v) => set("amount", v)} />
+        ) : (
+          <>
+            <ColumnSelect
+              id="csv-debit"
+              label="Debit (money out)"
+              file={file}
+              value={mapping.debit}
+              onChange={(v) => set("debit", v)}
+              optional
+            />
+            <ColumnSelect
+              id="csv-credit"
+              label="Credit (money in)"
+              file={file}
+              value={mapping.credit}
+              onChange={(v) => set("credit", v)}
+              optional
+            />
+          </>
+        )}
+        <ColumnSelect
+          id="csv-category"
+          label="Category"
+          file={file}
+          value={mapping.category}
+          onChange={(v) => set("category", v)}
+          optional
+        />
+      </div>
+    </div>
+  );
+};
@@ -14,6 +14,8 @@ type DeleteConfirmationDialogProps = {
   onClose: () => void;
   onConfirm: () => void;
   transactionDescription?: string;
+  // What is being deleted, for the dialog text
+  itemType?: string;
 };
 
 export const DeleteConfirmationDialog = ({
@@ -21,6 +23,7 @@ export const DeleteConfirmationDialog = ({
   onClose,
   onConfirm,
   transactionDescription,
+  itemType = "transaction",
 }: DeleteConfirmationDialogProps) => {
   const handleOpenChange = (isOpen: boolean) => {
     if (!isOpen) {
@@ -36,13 +39,13 @@ export const DeleteConfirmationDialog = ({
           <AlertDialogDescription>
             {transactionDescription ? (
               <>
-                This will permanently delete the transaction:{" "}
+                This will permanently delete the {itemType}:{" "}
                 <span className="font-semibold">{transactionDescription}</span>
                 <br />
                 This action cannot be undone.
               </>
             ) : (
-              "This action cannot be undone. This will permanently delete the transaction."
+              `This action cannot be undone. This will permanently delete the ${itemType}.`
             )}
           </AlertDialogDescription>
         </AlertDialogHeader>
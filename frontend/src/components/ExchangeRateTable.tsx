@@ -0,0 +1,144 @@
+import { useRef, useState } from "react";
+import { Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useExchangeRates } from "@/context/ExchangeRateContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { parseRatesFile, SUPPORTED_CURRENCIES } from "@/lib/exchangeRates";
+import { toast } from "@/hooks/use-toast";
+
+const CurrencySelect = ({ value, onChange }: { value: string; onChange: (value: string) => void }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="w-24">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {SUPPORTED_CURRENCIES.map((code) => (
+        <SelectItem key={code} value={code}>
+          {code}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const ExchangeRateTable = () => {
+  const { rates, addRate, updateRate, deleteRate, importRates } = useExchangeRates();
+  const { baseCurrency } = usePreferences();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [from, setFrom] = useState(SUPPORTED_CURRENCIES.find((c) => c !== baseCurrency) ?? "EUR");
+  const [rate, setRate] = useState("");
+
+  const parsedRate = parseFloat(rate);
+  const canAdd = from !== baseCurrency && parsedRate > 0 && date !== "";
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    addRate({ from, to: baseCurrency, rate: parsedRate, date });
+    setRate("");
+  };
+
+  const handleFile = async (file: File) => {
+    const { rates: imported, errors } = parseRatesFile(await file.text(), file.name);
+    if (imported.length > 0) importRates(imported);
+    toast({
+      title: `Imported ${imported.length} rate${imported.length === 1 ? "" : "s"}`,
+      description: errors.length > 0 ? `${errors.length} skipped. ${errors.slice(0, 3).join("; ")}` : undefined,
+      variant: imported.length === 0 && errors.length > 0 ? "destructive" : "default",
+    });
+  };
+
+  const sortedRates = [...rates].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-40" />
+        <span className="text-sm text-muted-foreground">1</span>
+        <CurrencySelect value={from} onChange={setFrom} />
+        <span className="text-sm text-muted-foreground">=</span>
+        <Input
+          inputMode="decimal"
+          placeholder="Rate"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+          className="w-28"
+        />
+        <span className="text-sm text-muted-foreground">{baseCurrency}</span>
+        <Button variant="outline" size="icon" onClick={handleAdd} disabled={!canAdd}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" onClick={() => fileInput.current?.click()} className="ml-auto">
+          <Upload className="h-4 w-4 mr-2" />
+          Import rates
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.json,.txt"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Import a CSV or JSON file with date, from, to and rate columns. Nothing is downloaded.
+      </p>
+
+      {sortedRates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No exchange rates yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-2 font-medium text-muted-foreground">Date</th>
+                <th className="text-left py-2 px-2 font-medium text-muted-foreground">Pair</th>
+                <th className="text-right py-2 px-2 font-medium text-muted-foreground">Rate</th>
+                <th className="py-2 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRates.map((r) => (
+                <tr key={r.id} className="border-b">
+                  <td className="py-2 px-2">{r.date}</td>
+                  <td className="py-2 px-2">
+                    1 {r.from} → {r.to}
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    <Input
+                      inputMode="decimal"
+                      defaultValue={r.rate}
+                      className="h-8 w-28 ml-auto text-right"
+                      onBlur={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (value > 0 && value !== r.rate) updateRate({ ...r, rate: value });
+                        else e.target.value = String(r.rate);
+                      }}
+                    />
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteRate(r.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
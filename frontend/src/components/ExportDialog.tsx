@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAccounts } from "@/context/AccountContext";
+import { useCategories } from "@/context/CategoryContext";
+import { Transaction } from "@/data/mockData";
+import { CSV_DELIMITERS } from "@/lib/csv";
+import { DATE_FORMATS, DateFormat } from "@/lib/csvImport";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  downloadFile,
+  exportTransactions,
+} from "@/lib/export";
+
+type ExportDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  // Already filtered by the caller
+  transactions: Transaction[];
+  // What the transactions are, e.g. "matching the current filters"
+  scope: string;
+};
+
+// Options are kept between openings so a repeat export is a single click
+export const ExportDialog = ({ open, onClose, transactions, scope }: ExportDialogProps) => {
+  const { accounts } = useAccounts();
+  const { getCategory } = useCategories();
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [dateFormat, setDateFormat] = useState<DateFormat>("ymd");
+  const [delimiter, setDelimiter] = useState(",");
+
+  const isValid = (format === "qif" || columns.length > 0) && transactions.length > 0;
+
+  const toggleColumn = (key: string) =>
+    setColumns((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+
+  const handleDownload = () => {
+    if (!isValid) return;
+
+    const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+    const content = exportTransactions(transactions, columns, format, {
+      getCategory,
+      accounts,
+      accountName: (id) => accountNames.get(id) ?? "Unknown account",
+      dateFormat,
+      delimiter,
+    });
+    const today = new Date().toISOString().split("T")[0];
+    const { mimeType } = EXPORT_FORMATS.find((f) => f.value === format) ?? EXPORT_FORMATS[0];
+    downloadFile(`centsible-transactions-${today}.${format}`, content, mimeType);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Export Transactions</DialogTitle>
+          <DialogDescription>
+            {transactions.length} transaction{transactions.length === 1 ? "" : "s"} {scope}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-format">Format</Label>
+              <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+                <SelectTrigger id="export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map((f) => (
+                    <SelectItem key={f.value} value={f.value}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {format !== "qif" && (
+              <div className="space-y-2">
+                <Label htmlFor="export-date-format">Date Format</Label>
+                <Select value={dateFormat} onValueChange={(v) => setDateFormat(v as DateFormat)}>
+                  <SelectTrigger id="export-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map((f) => (
+                      <SelectItem key={f.value} value={f.value}>
+                        {f.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {format === "csv" && (
+            <div className="space-y-2">
+              <Label htmlFor="export-delimiter">Delimiter</Label>
+              <Select value={delimiter} onValueChange={setDelimiter}>
+                <SelectTrigger id="export-delimiter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CSV_DELIMITERS.map((d) => (
+                    <SelectItem key={d.value} value={d.value}>
+                      {d.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {format === "qif" ? (
+            <p className="text-sm text-muted-foreground">
+              One section per account with dates as MM/DD/YYYY, category paths and split lines.
+              Transfers appear once, under the account they leave.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {EXPORT_COLUMNS.map((column) => (
+                  <label key={column.key} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={columns.includes(column.key)} onCheckedChange={() => toggleColumn(column.key)} />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={!isValid}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useGoals } from "@/context/GoalContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { Goal } from "@/lib/goals";
+import { SUPPORTED_CURRENCIES } from "@/lib/exchangeRates";
+import { parseMoney, toInputValue } from "@/lib/money";
+
+type GoalModalProps = {
+  open: boolean;
+  onClose: () => void;
+  goal?: Goal | null;
+};
+
+export const GoalModal = ({ open, onClose, goal }: GoalModalProps) => {
+  const { addGoal, updateGoal } = useGoals();
+  const { baseCurrency } = usePreferences();
+  const [title, setTitle] = useState("");
+  const [target, setTarget] = useState("");
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [targetDate, setTargetDate] = useState("");
+
+  // Populate form when editing a goal
+  useEffect(() => {
+    setTitle(goal?.title ?? "");
+    setTarget(goal ? toInputValue(goal.target) : "");
+    setCurrency(goal?.target.currency ?? baseCurrency);
+    setTargetDate(goal?.targetDate ?? "");
+  }, [goal, open, baseCurrency]);
+
+  const parsedTarget = parseMoney(target, currency);
+  const isValid = title.trim() !== "" && parsedTarget !== null && parsedTarget.amount > 0;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    const values = { title: title.trim(), target: parsedTarget, targetDate: targetDate || undefined };
+    if (goal) {
+      updateGoal({ ...goal, ...values });
+    } else {
+      addGoal(values);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{goal ? "Edit Goal" : "Add Goal"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="goal-title">Title</Label>
+            <Input
+              id="goal-title"
+              placeholder="e.g. Emergency Fund"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="goal-target">Target ({currency})</Label>
+              <Input
+                id="goal-target"
+                inputMode="decimal"
+                placeholder="0.00"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="goal-currency">Currency</Label>
+              {/* Contributions are recorded in the goal's currency, so it is fixed once set */}
+              <Select value={currency} onValueChange={setCurrency} disabled={!!goal}>
+                <SelectTrigger id="goal-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="goal-date">Target Date (optional)</Label>
+            <Input
+              id="goal-date"
+              type="date"
+              value={targetDate}
+              onChange={(e) => setTargetDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            {goal ? "Update" : "Add Goal"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,55 @@
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import { useGoals } from "@/context/GoalContext";
+import { Progress } from "@/components/ui/progress";
+import { computeGoalProgress } from "@/lib/goals";
+import { formatMoney } from "@/lib/money";
+
+// Dashboard summary of the goals that are still open, furthest along first
+export const GoalsCard = ({ delay = 0 }: { delay?: number }) => {
+  const { goals, contributions } = useGoals();
+  const open = goals
+    .map((goal) => ({ goal, progress: computeGoalProgress(goal, contributions) }))
+    .filter(({ progress }) => !progress.complete)
+    .sort((a, b) => b.progress.percent - a.progress.percent)
+    .slice(0, 4);
+
+  return (
+    <motion.div
+      className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Financial Goals</h3>
+        <Link to="/goals" className="text-sm font-medium text-primary hover:underline">
+          View all
+        </Link>
+      </div>
+
+      {open.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {goals.length === 0 ? "No goals set." : "Every goal is reached."}{" "}
+          <Link to="/goals" className="font-medium underline">
+            Add a goal
+          </Link>
+        </p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {open.map(({ goal, progress }) => (
+            <div key={goal.id} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{goal.title}</span>
+                <span className="text-muted-foreground">
+                  {formatMoney(progress.saved, { compact: true })} / {formatMoney(goal.target, { compact: true })}
+                </span>
+              </div>
+              <Progress value={progress.percent} className="h-2" />
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
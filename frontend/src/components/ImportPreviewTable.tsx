@@ -0,0 +1,78 @@
+import { AlertCircle, Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { ImportRow } from "@/lib/imports";
+import { formatMoney } from "@/lib/money";
+
+type ImportPreviewTableProps = {
+  rows: ImportRow[];
+  // Lines of duplicate rows the user chose to import anyway
+  includedDuplicates: Set<number>;
+  onToggleDuplicate: (line: number) => void;
+};
+
+// Every row of an import with what will happen to it: imported, skipped as a
+// duplicate unless ticked, skipped because its bank id was imported before or
+// appears earlier in the file, or skipped because it couldn't be read
+export const ImportPreviewTable = ({ rows, includedDuplicates, onToggleDuplicate }: ImportPreviewTableProps) => (
+  <div className="max-h-[50vh] overflow-auto rounded-md border">
+    <table className="w-full text-sm">
+      <thead className="sticky top-0 bg-background">
+        <tr className="border-b">
+          <th className="text-left py-2 px-3 font-medium text-muted-foreground">#</th>
+          <th className="text-left py-2 px-3 font-medium text-muted-foreground">Date</th>
+          <th className="text-left py-2 px-3 font-medium text-muted-foreground">Description</th>
+          <th className="text-left py-2 px-3 font-medium text-muted-foreground">Category</th>
+          <th className="text-right py-2 px-3 font-medium text-muted-foreground">Amount</th>
+          <th className="text-left py-2 px-3 font-medium text-muted-foreground">Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ line, input, errors, duplicate, imported }) => (
+          <tr key={line} className="border-b last:border-0">
+            <td className="py-2 px-3 text-muted-foreground">{line}</td>
+            {input ? (
+              <>
+                <td className="py-2 px-3 whitespace-nowrap">{input.date}</td>
+                <td className="py-2 px-3">{input.description}</td>
+                <td className="py-2 px-3">
+                  <CategoryLabel id={input.category} />
+                </td>
+                <td
+                  className={`py-2 px-3 text-right font-semibold whitespace-nowrap ${
+                    input.type === "income" ? "text-green-600" : "text-red-600"
+                  }`}
+                >
+                  {input.type === "income" ? "+" : "-"}
+                  {formatMoney(input.amount)}
+                </td>
+              </>
+            ) : (
+              <td colSpan={4} className="py-2 px-3 text-destructive">
+                <span className="flex items-center gap-1">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  {errors.join("; ")}
+                </span>
+              </td>
+            )}
+            <td className="py-2 px-3 whitespace-nowrap">
+              {!input ? (
+                <span className="text-muted-foreground">Skipped</span>
+              ) : imported ? (
+                <Badge variant="secondary">Already imported</Badge>
+              ) : duplicate ? (
+                <label className="flex items-center gap-2">
+                  <Checkbox checked={includedDuplicates.has(line)} onCheckedChange={() => onToggleDuplicate(line)} />
+                  <Badge variant="outline">Duplicate</Badge>
+                </label>
+              ) : (
+                <Check className="h-4 w-4 text-green-600" />
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
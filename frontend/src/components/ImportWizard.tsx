@@ -0,0 +1,453 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CsvMappingFields } from "@/components/CsvMappingFields";
+import { ImportPreviewTable } from "@/components/ImportPreviewTable";
+import { useAccounts } from "@/context/AccountContext";
+import { useCategories } from "@/context/CategoryContext";
+import { useCategoryRules } from "@/context/CategoryRuleContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { usePayees } from "@/context/PayeeContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { useImportProfiles } from "@/hooks/use-import-profiles";
+import { toast } from "@/hooks/use-toast";
+import { DEFAULT_ACCOUNT_ID } from "@/lib/accounts";
+import { Category, CATEGORY_COLORS } from "@/lib/categories";
+import { CsvMapping, findProfile, guessMapping, mapCsvRows, mappingErrors, readCsvFile } from "@/lib/csvImport";
+import { flagDuplicates } from "@/lib/imports";
+import { isOfx, mapOfxRows, OfxStatement, parseOfx } from "@/lib/ofx";
+import { matchPayee } from "@/lib/payees";
+import { findCategoryByPath, isQif, mapQifRows, missingCategories, parseQif, QifEntry } from "@/lib/qif";
+import { categorizeImportRows } from "@/lib/rules";
+
+type ImportWizardProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+type Step = "upload" | "map" | "preview";
+
+// Statement formats carry their own structure and skip the mapping step
+type SourceFormat = "csv" | "ofx" | "qif";
+
+const NO_PROFILE = "none";
+
+// Upload a bank file, map its columns if it's a CSV, then review every row
+// before anything is saved. A CSV whose header matches a saved profile skips
+// the mapping step, as do OFX/QFX statements and QIF files.
+export const ImportWizard = ({ open, onClose }: ImportWizardProps) => {
+  const { accounts } = useAccounts();
+  const { categories, addCategory } = useCategories();
+  const { transactions, addTransaction } = useTransactions();
+  const { categoryRules } = useCategoryRules();
+  const { duplicateWindowDays } = usePreferences();
+  const { payees } = usePayees();
+  const { profiles, saveProfile, deleteProfile } = useImportProfiles();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<SourceFormat>("csv");
+  const [text, setText] = useState("");
+  const [statements, setStatements] = useState<OfxStatement[]>([]);
+  const [qifEntries, setQifEntries] = useState<QifEntry[]>([]);
+  const [createCategories, setCreateCategories] = useState(true);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [accountId, setAccountId] = useState(DEFAULT_ACCOUNT_ID);
+  const [profileName, setProfileName] = useState("");
+  const [includedDuplicates, setIncludedDuplicates] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setStep("upload");
+    setFileName("");
+    setFormat("csv");
+    setText("");
+    setStatements([]);
+    setQifEntries([]);
+    setCreateCategories(true);
+    setMapping(null);
+    setAccountId(DEFAULT_ACCOUNT_ID);
+    setProfileName("");
+    setIncludedDuplicates(new Set());
+  }, [open]);
+
+  const account = accounts.find((a) => a.id === accountId);
+  const currency = account?.openingBalance.currency ?? "USD";
+
+  const file = useMemo(() => (mapping ? readCsvFile(text, mapping) : null), [text, mapping]);
+  const rows = useMemo(() => {
+    let mapped;
+    if (format === "ofx") mapped = mapOfxRows(statements, { accountId, currency });
+    else if (format === "qif") mapped = mapQifRows(qifEntries, { accountId, currency, categories, accounts });
+    else if (file && mapping) mapped = mapCsvRows(file, mapping, { accountId, currency, categories });
+    else return [];
+    return flagDuplicates(categorizeImportRows(mapped, categoryRules), transactions, duplicateWindowDays);
+  }, [
+    format,
+    statements,
+    qifEntries,
+    file,
+    mapping,
+    accountId,
+    currency,
+    categories,
+    accounts,
+    categoryRules,
+    transactions,
+    duplicateWindowDays,
+  ]);
+
+  // Accounts the file names that exist here; their sections skip the picked account
+  const namedAccounts = useMemo(() => {
+    if (format !== "qif") return [];
+    const names = new Set(qifEntries.map((e) => e.account?.toLowerCase()));
+    return accounts.filter((a) => names.has(a.name.toLowerCase()));
+  }, [format, qifEntries, accounts]);
+
+  const missing = useMemo(
+    () => (format === "qif" ? missingCategories(qifEntries, categories) : []),
+    [format, qifEntries, categories],
+  );
+
+  const errors = mapping ? mappingErrors(mapping) : [];
+  const toImport = rows.filter(
+    (r) => r.input && !r.imported && (!r.duplicate || includedDuplicates.has(r.line)),
+  );
+  const duplicateCount = rows.filter((r) => r.duplicate).length;
+  const importedCount = rows.filter((r) => r.imported).length;
+  const invalidCount = rows.filter((r) => !r.input).length;
+
+  const applyProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) {
+      setProfileName("");
+      return;
+    }
+    setMapping(profile.mapping);
+    setProfileName(profile.name);
+    if (accounts.some((a) => a.id === profile.accountId)) setAccountId(profile.accountId);
+  };
+
+  const handleFile = async (selected: File) => {
+    const content = await selected.text();
+    setIncludedDuplicates(new Set());
+
+    if (isOfx(content, selected.name)) {
+      let parsed: OfxStatement[] = [];
+      try {
+        parsed = parseOfx(content);
+      } catch {
+        // Reported below like an empty statement
+      }
+      if (parsed.every((s) => s.entries.length === 0)) {
+        toast({
+          title: "Nothing to import",
+          description: `${selected.name} has no statement transactions.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      // Default to an account in the statement's currency
+      const statementCurrency = parsed.find((s) => s.currency)?.currency;
+      const match = accounts.find((a) => a.openingBalance.currency === statementCurrency);
+      if (match) setAccountId(match.id);
+      setFileName(selected.name);
+      setFormat("ofx");
+      setStatements(parsed);
+      setMapping(null);
+      setStep("preview");
+      return;
+    }
+
+    if (isQif(content, selected.name)) {
+      const entries = parseQif(content);
+      if (entries.length === 0) {
+        toast({
+          title: "Nothing to import",
+          description: `${selected.name} has no bank or credit card transactions.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setFileName(selected.name);
+      setFormat("qif");
+      setQifEntries(entries);
+      setMapping(null);
+      setStep("preview");
+      return;
+    }
+
+    const guess = guessMapping(content);
+    const profile = findProfile(profiles, readCsvFile(content, guess).headers);
+    setFileName(selected.name);
+    setFormat("csv");
+    setText(content);
+    if (profile) {
+      applyProfile(profile.id);
+      setStep("preview");
+    } else {
+      setMapping(guess);
+      setStep("map");
+    }
+  };
+
+  const toggleDuplicate = (line: number) => {
+    setIncludedDuplicates((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  };
+
+  // Creates the categories a QIF file uses but the registry lacks, parents
+  // first, and returns the registry as it will be once they're saved
+  const createMissingCategories = () => {
+    const created: Category[] = [];
+    missing.forEach(({ path, kind }, i) => {
+      const parent = path.length > 1 ? findCategoryByPath(path.slice(0, 1), [...categories, ...created]) : undefined;
+      created.push(
+        addCategory({
+          name: path[path.length - 1],
+          // Subcategories follow their parent's kind
+          kind: parent?.kind ?? kind,
+          color: CATEGORY_COLORS[i % CATEGORY_COLORS.length],
+          icon: "tag",
+          parentId: parent?.id,
+        }),
+      );
+    });
+    return [...categories, ...created];
+  };
+
+  const handleImport = () => {
+    if (toImport.length === 0) return;
+
+    let inputs = toImport.map((row) => row.input);
+    if (format === "qif" && createCategories && missing.length > 0) {
+      // Map again so rows pick up the new categories instead of the fallback
+      const lines = new Set(toImport.map((row) => row.line));
+      const remapped = categorizeImportRows(
+        mapQifRows(qifEntries, { accountId, currency, categories: createMissingCategories(), accounts }),
+        categoryRules,
+      );
+      inputs = remapped.filter((row) => lines.has(row.line)).map((row) => row.input);
+    }
+    // Bank descriptions are filed under the payee whose alias they match
+    inputs.forEach((input) => {
+      if (!input) return;
+      const payee = input.type === "transfer" ? undefined : matchPayee(input.description, payees);
+      addTransaction(payee ? { ...input, payeeId: payee.id } : input);
+    });
+    if (format === "csv" && mapping && file && profileName.trim()) {
+      saveProfile({
+        name: profileName.trim(),
+        headers: mapping.hasHeader ? file.headers : [],
+        accountId,
+        mapping,
+      });
+    }
+    toast({
+      title: "Import complete",
+      description: `${toImport.length} transaction${toImport.length === 1 ? "" : "s"} added to ${account?.name ?? "your account"}.`,
+    });
+    onClose();
+  };
+
+  const matchedProfile = profiles.find((p) => p.name === profileName);
+
+  const accountField = (
+    <div className="space-y-2">
+      <Label htmlFor="import-account">Import Into</Label>
+      <Select value={accountId} onValueChange={setAccountId}>
+        <SelectTrigger id="import-account">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {accounts.map((a) => (
+            <SelectItem key={a.id} value={a.id}>
+              {a.name} ({a.openingBalance.currency})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Choose a CSV, OFX, QFX or QIF file exported from your bank or finance app."}
+            {step === "map" && `Tell us what each column of ${fileName} holds.`}
+            {step === "preview" && `Review ${fileName} before importing.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="py-4">
+            <Button variant="outline" className="w-full h-24 border-dashed" onClick={() => fileInput.current?.click()}>
+              <Upload className="h-5 w-5 mr-2" />
+              Choose File
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.txt,.ofx,.qfx,.qif,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const selected = e.target.files?.[0];
+                if (selected) handleFile(selected);
+                e.target.value = "";
+              }}
+            />
+            {profiles.length > 0 && (
+              <p className="text-sm text-muted-foreground mt-2">
+                Files matching a saved bank profile go straight to the preview.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "map" && mapping && file && (
+          <div className="space-y-4 py-4 max-h-[65vh] overflow-y-auto">
+            <div className="grid grid-cols-2 gap-4">
+              {accountField}
+              {profiles.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="import-profile">Saved Profile</Label>
+                  <Select value={matchedProfile?.id ?? NO_PROFILE} onValueChange={applyProfile}>
+                    <SelectTrigger id="import-profile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PROFILE}>None</SelectItem>
+                      {profiles.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <CsvMappingFields file={file} mapping={mapping} onChange={setMapping} />
+
+            <div className="space-y-2">
+              <Label htmlFor="import-profile-name">Save as Bank Profile</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="import-profile-name"
+                  placeholder="e.g. First National Checking (optional)"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                />
+                {matchedProfile && (
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      deleteProfile(matchedProfile.id);
+                      setProfileName("");
+                    }}
+                  >
+                    Forget
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {errors.length > 0 && <p className="text-sm text-destructive">{errors.join(". ")}.</p>}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4 py-4">
+            {format === "qif" && (
+              <div className="space-y-4">
+                {accountField}
+                {namedAccounts.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Sections for {namedAccounts.map((a) => a.name).join(", ")} go into the account of the same name;
+                    the rest go into the one picked above.
+                  </p>
+                )}
+                {missing.length > 0 && (
+                  <label className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      checked={createCategories}
+                      onCheckedChange={(checked) => setCreateCategories(checked === true)}
+                    />
+                    <span>
+                      Create {missing.length} missing categor{missing.length === 1 ? "y" : "ies"}:{" "}
+                      <span className="text-muted-foreground">{missing.map((m) => m.path.join(":")).join(", ")}</span>
+                      . Otherwise those rows are filed under Other.
+                    </span>
+                  </label>
+                )}
+              </div>
+            )}
+            {format === "ofx" && (
+              <div className="grid grid-cols-2 gap-4">
+                {accountField}
+                <p className="self-end pb-2 text-sm text-muted-foreground">
+                  Bank account {statements.map((s) => s.bankAccountId || "unknown").join(", ")}
+                </p>
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              {toImport.length} to import{" "}
+              {namedAccounts.length > 0 ? "across your accounts" : `into ${account?.name ?? "your account"}`}
+              {importedCount > 0 && ` · ${importedCount} already imported`}
+              {duplicateCount > 0 && ` · ${duplicateCount} already recorded`}
+              {invalidCount > 0 && ` · ${invalidCount} with errors`}
+              {matchedProfile && ` · using the ${matchedProfile.name} profile`}
+            </p>
+            <ImportPreviewTable rows={rows} includedDuplicates={includedDuplicates} onToggleDuplicate={toggleDuplicate} />
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          {step === "upload" && (
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={errors.length > 0}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              {format === "csv" ? (
+                <Button variant="outline" onClick={() => setStep("map")}>
+                  Edit Mapping
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => setStep("upload")}>
+                  Back
+                </Button>
+              )}
+              <Button onClick={handleImport} disabled={toImport.length === 0}>
+                Import {toImport.length} Transaction{toImport.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { useCategories } from "@/context/CategoryContext";
+import { useMergeCategory } from "@/hooks/use-merge-category";
+import { toast } from "@/hooks/use-toast";
+import { Category } from "@/lib/categories";
+
+type MergeCategoryDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  // The category that is merged away
+  category: Category | null;
+  // How many transactions use it, for the confirmation text
+  usage: number;
+};
+
+export const MergeCategoryDialog = ({ open, onClose, category, usage }: MergeCategoryDialogProps) => {
+  const { categories, getCategory } = useCategories();
+  const merge = useMergeCategory();
+  const [targetId, setTargetId] = useState("");
+
+  useEffect(() => {
+    setTargetId("");
+  }, [category, open]);
+
+  if (!category) return null;
+
+  // Targets must be usable for every transaction type the source covers
+  const targets = categories.filter(
+    (c) =>
+      c.id !== category.id &&
+      !c.archived &&
+      (c.kind === "both" || (category.kind !== "both" && c.kind === category.kind)),
+  );
+
+  const handleMerge = () => {
+    if (!targetId) return;
+    const targetName = getCategory(targetId).name;
+    merge(category.id, targetId).then((moved) => {
+      if (moved === null) {
+        toast({
+          title: "Merge not finished",
+          description: `Some changes couldn't be stored, so ${category.name} was kept. Merge it again to finish.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Categories merged",
+        description: `${category.name} was merged into ${targetName}; ${moved} transaction${
+          moved === 1 ? "" : "s"
+        } moved.`,
+      });
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Merge {category.name}</DialogTitle>
+          <DialogDescription>
+            {usage} transaction{usage === 1 ? "" : "s"}, recurring rules and the budget for {category.name} move to
+            the category you pick. {category.name} is then removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-4">
+          <Label htmlFor="merge-target">Merge Into</Label>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger id="merge-target">
+              <SelectValue placeholder="Select category" />
+            </SelectTrigger>
+            <SelectContent>
+              <CategoryOptions categories={targets} />
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={!targetId}>
+            Merge
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
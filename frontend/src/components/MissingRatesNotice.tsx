@@ -0,0 +1,20 @@
+import { Link } from "react-router-dom";
+import { AlertCircle } from "lucide-react";
+
+// Shown wherever totals leave out transactions that have no exchange rate
+export const MissingRatesNotice = ({ count }: { count: number }) => {
+  if (count === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border border-yellow-500/50 bg-yellow-500/10 px-4 py-3 text-sm">
+      <AlertCircle className="h-4 w-4 text-yellow-600" />
+      <span>
+        {count} transaction{count === 1 ? " is" : "s are"} left out of the totals because no exchange rate is
+        available.{" "}
+        <Link to="/settings" className="font-medium underline">
+          Add rates in Settings
+        </Link>
+      </span>
+    </div>
+  );
+};
@@ -1,25 +1,35 @@
-import { Search, Moon, Sun, Plus } from "lucide-react";
+import { Search, Moon, Sun, Plus, CloudOff, RefreshCw } from "lucide-react";
 import { useState } from "react";
 import { useTheme } from "@/context/ThemeContext";
 import { useTransactions } from "@/context/TransactionContext";
+import { useAccounts } from "@/context/AccountContext";
+import { usePreferences } from "@/context/PreferencesContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { TransactionModal } from "@/components/TransactionModal";
+import { useAccountBalances } from "@/hooks/use-account-balances";
+import { add, formatMoney, zero } from "@/lib/money";
+
+const ALL_ACCOUNTS = "all";
 
 export const Navbar = () => {
   const { theme, toggleTheme } = useTheme();
-  const { transactions } = useTransactions();
+  const { isOnline, isSyncing, pendingCount, syncNow } = useTransactions();
+  const { accounts } = useAccounts();
+  const { baseCurrency } = usePreferences();
+  const balances = useAccountBalances();
   const [addModalOpen, setAddModalOpen] = useState(false);
+  const [accountId, setAccountId] = useState(ALL_ACCOUNTS);
 
-  const totalIncome = transactions
-    .filter((t) => t.type === "income")
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const totalExpenses = transactions
-    .filter((t) => t.type === "expense")
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const balance = totalIncome - totalExpenses;
+  // A single account shows its own currency; the total is in the base currency
+  const selected = balances.get(accountId);
+  const balance = selected
+    ? selected.balance
+    : accounts.reduce((total, account) => {
+        const inBase = balances.get(account.id)?.balanceInBase;
+        return inBase ? add(total, inBase) : total;
+      }, zero(baseCurrency));
 
   return (
     <header className="sticky top-0 z-30 w-full border-b border-border bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/60">
@@ -27,15 +37,40 @@ export const Navbar = () => {
         {/* Balance Display */}
         <div className="flex items-center gap-6">
           <div className="hidden md:block">
-            <p className="text-sm text-muted-foreground">Total Balance</p>
-            <p className={`text-2xl font-bold ${balance >= 0 ? "text-success" : "text-destructive"}`}>
-              ${balance.toLocaleString()}
+            <Select value={selected ? accountId : ALL_ACCOUNTS} onValueChange={setAccountId}>
+              <SelectTrigger className="h-auto w-auto gap-1 border-0 bg-transparent p-0 text-sm text-muted-foreground shadow-none focus:ring-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACCOUNTS}>Total Balance</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className={`text-2xl font-bold ${balance.amount >= 0 ? "text-success" : "text-destructive"}`}>
+              {formatMoney(balance)}
             </p>
           </div>
         </div>
 
         {/* Search and Actions */}
         <div className="flex items-center gap-4">
+          {/* Sync Status */}
+          {!isOnline ? (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CloudOff className="h-4 w-4" />
+              Offline{pendingCount > 0 && ` · ${pendingCount} pending`}
+            </span>
+          ) : pendingCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={syncNow} disabled={isSyncing} className="gap-2">
+              <RefreshCw className={`h-4 w-4 ${isSyncing ? "animate-spin" : ""}`} />
+              {pendingCount} pending
+            </Button>
+          )}
+
           <div className="relative hidden sm:block">
             <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <Input
@@ -0,0 +1,93 @@
+import { KeyboardEvent, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { usePayees } from "@/context/PayeeContext";
+import { searchPayees } from "@/lib/payees";
+import { cn } from "@/lib/utils";
+
+type PayeeInputProps = {
+  id?: string;
+  // The payee's name as typed; a name no payee has yet creates one on save
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+};
+
+const MAX_SUGGESTIONS = 6;
+
+// Text box that completes from existing payees by name or alias
+export const PayeeInput = ({ id, value, onChange, placeholder }: PayeeInputProps) => {
+  const { payees } = usePayees();
+  const [highlighted, setHighlighted] = useState(0);
+  const [focused, setFocused] = useState(false);
+
+  const matches = value.trim()
+    ? searchPayees(value, payees)
+        .filter((p) => p.name.toLowerCase() !== value.trim().toLowerCase())
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const select = (name: string) => {
+    onChange(name);
+    setHighlighted(0);
+    setFocused(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!focused || matches.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % matches.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      select(matches[highlighted].name);
+    } else if (e.key === "Escape") {
+      setFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        placeholder={placeholder ?? "e.g. Amazon"}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setFocused(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+      />
+      {focused && matches.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+          {matches.map((payee, index) => (
+            <li
+              key={payee.id}
+              className={cn(
+                "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+                index === highlighted && "bg-accent text-accent-foreground",
+              )}
+              // Keep focus in the input until the choice is made
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(payee.name);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              {payee.name}
+              {payee.aliases.length > 0 && (
+                <span className="ml-2 text-xs text-muted-foreground">{payee.aliases.join(", ")}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { usePayees } from "@/context/PayeeContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { matchPayee, normalizeDescription, Payee } from "@/lib/payees";
+
+const PREVIEW_LIMIT = 5;
+
+type PayeeModalProps = {
+  open: boolean;
+  onClose: () => void;
+  payee?: Payee | null;
+};
+
+export const PayeeModal = ({ open, onClose, payee }: PayeeModalProps) => {
+  const { payees, addPayee, updatePayee } = usePayees();
+  const { transactions, updateTransaction } = useTransactions();
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState("");
+  const [assignExisting, setAssignExisting] = useState(false);
+
+  // Populate form when editing a payee
+  useEffect(() => {
+    setName(payee?.name ?? "");
+    setAliases(payee?.aliases.join("\n") ?? "");
+    setAssignExisting(false);
+  }, [payee, open]);
+
+  const trimmed = name.trim();
+  const duplicate = payees.some((p) => p.id !== payee?.id && p.name.toLowerCase() === trimmed.toLowerCase());
+  const isValid = trimmed !== "" && !duplicate;
+
+  // One alias per line; blank lines and repeats are dropped
+  const aliasList = Array.from(new Set(aliases.split("\n").map((a) => a.trim()).filter(Boolean)));
+  const draft: Payee = { id: payee?.id ?? "", name: trimmed, aliases: aliasList };
+
+  // Transactions this payee would claim by description, judged against the
+  // other payees as they are now
+  const others = payees.filter((p) => p.id !== payee?.id);
+  const matches = isValid
+    ? transactions.filter((t) => t.type !== "transfer" && matchPayee(t.description, [...others, draft]) === draft)
+    : [];
+  const unassigned = matches.filter((t) => !t.payeeId);
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    const values = { name: trimmed, aliases: aliasList };
+    const saved = payee ? { ...payee, ...values } : addPayee(values);
+    if (payee) updatePayee(saved);
+    if (assignExisting) unassigned.forEach((t) => updateTransaction({ ...t, payeeId: saved.id }));
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{payee ? "Edit Payee" : "Add Payee"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="payee-name">Name</Label>
+            <Input id="payee-name" placeholder="e.g. Amazon" value={name} onChange={(e) => setName(e.target.value)} />
+            {duplicate && <p className="text-sm text-destructive">A payee with this name already exists.</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payee-aliases">Aliases</Label>
+            <Textarea
+              id="payee-aliases"
+              placeholder={"One per line, e.g.\namzn mktp\namazon prime"}
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Matched as whole words, ignoring case, numbers and reference codes. "AMZN Mktp US*2K4" reads as "
+              {normalizeDescription("AMZN Mktp US*2K4")}".
+            </p>
+          </div>
+
+          {isValid && (
+            <div className="space-y-2 rounded-md border p-3">
+              <p className="text-sm font-medium">
+                Matches {matches.length} existing transaction{matches.length === 1 ? "" : "s"}
+              </p>
+              {matches.slice(0, PREVIEW_LIMIT).map((t) => (
+                <p key={t.id} className="truncate text-sm text-muted-foreground">
+                  {t.date} · {t.description}
+                </p>
+              ))}
+              {matches.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground">and {matches.length - PREVIEW_LIMIT} more</p>
+              )}
+              {unassigned.length > 0 && (
+                <label className="flex items-center gap-2 pt-2 text-sm">
+                  <Checkbox checked={assignExisting} onCheckedChange={(v) => setAssignExisting(v === true)} />
+                  Set as the payee of the {unassigned.length} without one
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            {payee ? "Update" : "Add Payee"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Pencil, Plus, Store, Trash2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { DeleteConfirmationDialog } from "@/components/DeleteConfirmationDialog";
+import { PayeeModal } from "@/components/PayeeModal";
+import { usePayees } from "@/context/PayeeContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { Payee, payeeOf } from "@/lib/payees";
+
+// Settings card listing payees with their aliases and how many transactions they cover
+export const PayeesSection = () => {
+  const { payees, deletePayee } = usePayees();
+  const { transactions, updateTransaction } = useTransactions();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedPayee, setSelectedPayee] = useState<Payee | null>(null);
+
+  const counts = new Map<string, number>();
+  for (const t of transactions) {
+    const payee = t.type === "transfer" ? undefined : payeeOf(t, payees);
+    if (payee) counts.set(payee.id, (counts.get(payee.id) ?? 0) + 1);
+  }
+
+  const handleEdit = (payee: Payee) => {
+    setSelectedPayee(payee);
+    setModalOpen(true);
+  };
+
+  const handleDeleteClick = (payee: Payee) => {
+    setSelectedPayee(payee);
+    setDeleteDialogOpen(true);
+  };
+
+  // Transactions filed under the payee are kept, without a payee
+  const handleDeleteConfirm = () => {
+    if (selectedPayee) {
+      transactions
+        .filter((t) => t.payeeId === selectedPayee.id)
+        .forEach((t) => updateTransaction({ ...t, payeeId: undefined }));
+      deletePayee(selectedPayee.id);
+    }
+    setDeleteDialogOpen(false);
+    setSelectedPayee(null);
+  };
+
+  return (
+    <motion.div
+      className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.39 }}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <Store className="h-8 w-8 text-muted-foreground" />
+          <div>
+            <h3 className="text-lg font-semibold">Payees</h3>
+            <p className="text-sm text-muted-foreground">
+              Merchants and the names they go by in bank descriptions
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            setSelectedPayee(null);
+            setModalOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Payee
+        </Button>
+      </div>
+
+      {payees.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No payees yet. Add one here, or type a payee when adding a transaction.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {payees.map((payee) => {
+            const count = counts.get(payee.id) ?? 0;
+            return (
+              <div key={payee.id} className="flex items-center gap-3 py-3">
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="font-medium truncate">
+                    {payee.name}
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      {count} transaction{count === 1 ? "" : "s"}
+                    </span>
+                  </p>
+                  {payee.aliases.length > 0 && (
+                    <p className="text-sm text-muted-foreground truncate">Also: {payee.aliases.join(", ")}</p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                    onClick={() => handleEdit(payee)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDeleteClick(payee)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <PayeeModal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setSelectedPayee(null);
+        }}
+        payee={selectedPayee}
+      />
+
+      <DeleteConfirmationDialog
+        open={deleteDialogOpen}
+        onClose={() => {
+          setDeleteDialogOpen(false);
+          setSelectedPayee(null);
+        }}
+        onConfirm={handleDeleteConfirm}
+        transactionDescription={selectedPayee?.name}
+        itemType="payee"
+      />
+    </motion.div>
+  );
+};
@@ -0,0 +1,164 @@
+import { KeyboardEvent, useRef, useState } from "react";
+import { Search } from "lucide-react";
+import { completeQuery, QueryCompletions, QueryToken, QueryTokenKind, QueryValues } from "@/lib/query";
+import { cn } from "@/lib/utils";
+
+type QueryInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  // Tokens of the parsed value, for highlighting
+  tokens: QueryToken[];
+  errors: string[];
+  // Known values per field to complete from
+  values: QueryValues;
+  placeholder?: string;
+};
+
+const TOKEN_CLASSES: Record<QueryTokenKind, string> = {
+  field: "text-primary",
+  value: "text-foreground",
+  text: "text-foreground",
+  operator: "text-orange-500",
+  negation: "text-orange-500",
+  paren: "text-muted-foreground",
+  error: "text-destructive underline decoration-wavy",
+};
+
+// Shared by the input and the highlight layer behind it so the text lines up;
+// token styles only change colour for the same reason
+const TEXT_CLASSES = "px-3 py-2 pl-9 text-base md:text-sm whitespace-pre";
+
+// Search box for query syntax: the typed text is drawn by a highlighted copy
+// behind a transparent input, and field names and values complete at the cursor
+export const QueryInput = ({ value, onChange, tokens, errors, values, placeholder }: QueryInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [completions, setCompletions] = useState<QueryCompletions | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [cursor, setCursor] = useState(0);
+
+  const syncScroll = () => {
+    if (inputRef.current && highlightRef.current) highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+  };
+
+  const refresh = (text: string, position: number) => {
+    setCursor(position);
+    setCompletions(completeQuery(text, position, values));
+    setHighlighted(0);
+    syncScroll();
+  };
+
+  const select = (insert: string) => {
+    if (!completions) return;
+    const next = value.slice(0, completions.from) + insert + value.slice(cursor);
+    const position = completions.from + insert.length;
+    onChange(next);
+    // A chosen field name goes straight on to its values
+    setCursor(position);
+    setCompletions(insert.endsWith(":") ? completeQuery(next, position, values) : null);
+    setHighlighted(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(position, position);
+      syncScroll();
+    });
+  };
+
+  const options = completions?.options ?? [];
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (options.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % options.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + options.length) % options.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      select(options[highlighted].insert);
+    } else if (e.key === "Escape") {
+      setCompletions(null);
+    }
+  };
+
+  // Plain text between tokens keeps the highlight layer the same width as the input
+  const segments: { text: string; className?: string }[] = [];
+  let position = 0;
+  for (const token of tokens) {
+    if (token.start > position) segments.push({ text: value.slice(position, token.start) });
+    segments.push({ text: value.slice(token.start, token.end), className: TOKEN_CLASSES[token.kind] });
+    position = token.end;
+  }
+  if (position < value.length) segments.push({ text: value.slice(position) });
+
+  return (
+    <div className="flex-1">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground z-10" />
+        <div
+          ref={highlightRef}
+          aria-hidden
+          className={cn(
+            "pointer-events-none absolute inset-0 flex items-center overflow-hidden rounded-md border border-transparent",
+            TEXT_CLASSES,
+          )}
+        >
+          {segments.map((segment, index) => (
+            <span key={index} className={segment.className}>
+              {segment.text}
+            </span>
+          ))}
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          spellCheck={false}
+          autoComplete="off"
+          placeholder={placeholder}
+          value={value}
+          className={cn(
+            "flex h-10 w-full rounded-md border border-input bg-transparent text-transparent caret-foreground ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
+            TEXT_CLASSES,
+          )}
+          onChange={(e) => {
+            onChange(e.target.value);
+            refresh(e.target.value, e.target.selectionStart ?? e.target.value.length);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => {
+            // Moving the cursor changes what is being completed
+            if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") {
+              refresh(value, e.currentTarget.selectionStart ?? value.length);
+            }
+          }}
+          onClick={(e) => refresh(value, e.currentTarget.selectionStart ?? value.length)}
+          onScroll={syncScroll}
+          onBlur={() => setCompletions(null)}
+        />
+        {options.length > 0 && (
+          <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+            {options.map((option, index) => (
+              <li
+                key={option.label}
+                className={cn(
+                  "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+                  index === highlighted && "bg-accent text-accent-foreground",
+                )}
+                // Keep focus in the input until the choice is made
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(option.insert);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+              >
+                {option.label}
+                {option.hint && <span className="ml-2 text-xs text-muted-foreground">{option.hint}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {errors.length > 0 && <p className="mt-1 text-xs text-destructive">{errors.join(" · ")}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Frequency, FREQUENCIES, RecurrenceDraft } from "@/lib/recurrence";
+
+type RecurrenceFieldsProps = {
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+  // Shown as the placeholder for the day of month
+  startDate: string;
+};
+
+export const RecurrenceFields = ({ value, onChange, startDate }: RecurrenceFieldsProps) => {
+  const set = (changes: Partial<RecurrenceDraft>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="frequency">Repeats</Label>
+          <Select value={value.frequency} onValueChange={(frequency: Frequency) => set({ frequency })}>
+            <SelectTrigger id="frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FREQUENCIES.map((f) => (
+                <SelectItem key={f.value} value={f.value}>
+                  {f.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.frequency === "monthly" && (
+          <div className="space-y-2">
+            <Label htmlFor="day-of-month">Day of Month</Label>
+            <Input
+              id="day-of-month"
+              inputMode="numeric"
+              placeholder={startDate ? String(Number(startDate.slice(8, 10))) : "1"}
+              value={value.dayOfMonth}
+              onChange={(e) => set({ dayOfMonth: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="ends">Ends</Label>
+          <Select value={value.ends} onValueChange={(ends: RecurrenceDraft["ends"]) => set({ ends })}>
+            <SelectTrigger id="ends">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="on">On a date</SelectItem>
+              <SelectItem value="after">After a number of times</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.ends === "on" && (
+          <div className="space-y-2">
+            <Label htmlFor="end-date">End Date</Label>
+            <Input
+              id="end-date"
+              type="date"
+              min={startDate}
+              value={value.endDate}
+              onChange={(e) => set({ endDate: e.target.value })}
+            />
+          </div>
+        )}
+
+        {value.ends === "after" && (
+          <div className="space-y-2">
+            <Label htmlFor="count">Occurrences</Label>
+            <Input
+              id="count"
+              inputMode="numeric"
+              placeholder="12"
+              value={value.count}
+              onChange={(e) => set({ count: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
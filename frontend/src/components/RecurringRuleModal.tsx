@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RecurrenceFields } from "@/components/RecurrenceFields";
+import { useRecurring } from "@/context/RecurringContext";
+import { parseRecurrenceDraft, RecurrenceDraft, RecurringRule, toRecurrenceDraft } from "@/lib/recurrence";
+import { allocate, parseMoney, toInputValue } from "@/lib/money";
+import { isSplit } from "@/lib/splits";
+
+type RecurringRuleModalProps = {
+  open: boolean;
+  onClose: () => void;
+  rule: RecurringRule | null;
+};
+
+// Edits a rule's template and schedule. Changes apply to occurrences that
+// haven't been created yet; existing transactions are left alone.
+export const RecurringRuleModal = ({ open, onClose, rule }: RecurringRuleModalProps) => {
+  const { updateRule } = useRecurring();
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft | null>(null);
+
+  useEffect(() => {
+    if (rule) {
+      setDescription(rule.template.description);
+      setAmount(toInputValue(rule.template.amount));
+      setStartDate(rule.startDate);
+      setRecurrence(toRecurrenceDraft(rule));
+    }
+  }, [rule, open]);
+
+  if (!rule || !recurrence) return null;
+
+  const parsedAmount = parseMoney(amount, rule.template.amount.currency);
+  const schedule = parseRecurrenceDraft(recurrence, startDate);
+  const isValid = parsedAmount !== null && parsedAmount.amount > 0 && schedule !== null;
+
+  const handleSubmit = () => {
+    if (!parsedAmount || !schedule) return;
+
+    const { template } = rule;
+    // Split lines keep their proportions when the total changes
+    const splits = isSplit(template)
+      ? allocate(parsedAmount, template.splits.map((line) => line.amount.amount)).map((part, i) => ({
+          ...template.splits[i],
+          amount: part,
+        }))
+      : template.splits;
+
+    updateRule({
+      id: rule.id,
+      generatedThrough: rule.generatedThrough,
+      ...schedule,
+      template: { ...template, amount: parsedAmount, splits, description: description.trim() },
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Recurring Transaction</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-description">Description</Label>
+            <Input
+              id="rule-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-amount">Amount ({rule.template.amount.currency})</Label>
+              <Input
+                id="rule-amount"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-start">Starts</Label>
+              <Input
+                id="rule-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <RecurrenceFields value={recurrence} onChange={setRecurrence} startDate={startDate} />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            Update
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
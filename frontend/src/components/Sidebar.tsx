@@ -1,11 +1,16 @@
 import { NavLink } from "react-router-dom";
-import { LayoutDashboard, Receipt, BarChart3, Settings, Menu, X } from "lucide-react";
+import { LayoutDashboard, Receipt, Wallet, Repeat, PiggyBank, Target, Tags, BarChart3, Settings, Menu, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
 
 const navigation = [
   { name: "Dashboard", href: "/", icon: LayoutDashboard },
   { name: "Transactions", href: "/transactions", icon: Receipt },
+  { name: "Accounts", href: "/accounts", icon: Wallet },
+  { name: "Recurring", href: "/recurring", icon: Repeat },
+  { name: "Budgets", href: "/budgets", icon: PiggyBank },
+  { name: "Goals", href: "/goals", icon: Target },
+  { name: "Categories", href: "/categories", icon: Tags },
   { name: "Analytics", href: "/analytics", icon: BarChart3 },
   { name: "Settings", href: "/settings", icon: Settings },
 ];
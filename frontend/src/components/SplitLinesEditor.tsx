@@ -0,0 +1,84 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatMoney, Money, parseMoney, subtract, sum, toInputValue } from "@/lib/money";
+import { SplitDraft } from "@/lib/splits";
+import { Category } from "@/lib/categories";
+import { CategoryOptions } from "@/components/CategoryOptions";
+
+type SplitLinesEditorProps = {
+  lines: SplitDraft[];
+  onChange: (lines: SplitDraft[]) => void;
+  categories: Category[];
+  // The parent amount the lines must add up to, null while it isn't valid
+  total: Money | null;
+  currency: string;
+};
+
+export const SplitLinesEditor = ({ lines, onChange, categories, total, currency }: SplitLinesEditorProps) => {
+  const updateLine = (index: number, changes: Partial<SplitDraft>) =>
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const allocated = sum(
+    lines.map((line) => parseMoney(line.amount, currency)).filter((m): m is Money => m !== null),
+    currency,
+  );
+  const remaining = total ? subtract(total, allocated) : null;
+
+  // New lines start with whatever is still unallocated
+  const addLine = () =>
+    onChange([
+      ...lines,
+      { category: "", amount: remaining && remaining.amount > 0 ? toInputValue(remaining) : "", memo: "" },
+    ]);
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select value={line.category} onValueChange={(category) => updateLine(index, { category })}>
+            <SelectTrigger className="w-36 shrink-0">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <CategoryOptions categories={categories} />
+            </SelectContent>
+          </Select>
+          <Input
+            inputMode="decimal"
+            placeholder="0.00"
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            className="w-24 shrink-0"
+          />
+          <Input
+            placeholder="Memo"
+            value={line.memo}
+            onChange={(e) => updateLine(index, { memo: e.target.value })}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+            onClick={() => onChange(lines.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={addLine}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add line
+        </Button>
+        {remaining && (
+          <span className={`text-sm ${remaining.amount === 0 ? "text-muted-foreground" : "text-destructive"}`}>
+            {remaining.amount === 0 ? "Fully allocated" : `${formatMoney(remaining)} left to allocate`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
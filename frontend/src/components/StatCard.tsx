@@ -1,9 +1,10 @@
 import { LucideIcon } from "lucide-react";
 import { motion } from "framer-motion";
+import { formatMoney, Money } from "@/lib/money";
 
 type StatCardProps = {
   title: string;
-  value: string;
+  value: Money;
   icon: LucideIcon;
   trend?: string;
   variant?: "default" | "success" | "danger";
@@ -26,7 +27,7 @@ export const StatCard = ({ title, value, icon: Icon, trend, variant = "default"
       <div className="flex items-start justify-between">
         <div>
           <p className="text-sm text-muted-foreground mb-2">{title}</p>
-          <h3 className="text-3xl font-bold mb-1">{value}</h3>
+          <h3 className="text-3xl font-bold mb-1">{formatMoney(value)}</h3>
           {trend && (
             <p className="text-sm text-muted-foreground">{trend}</p>
           )}
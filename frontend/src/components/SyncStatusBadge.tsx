@@ -0,0 +1,24 @@
+import { AlertTriangle, Cloud, CloudUpload } from "lucide-react";
+import { SyncStatus } from "@/data/mockData";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+const statusDisplay = {
+  pending: { icon: CloudUpload, label: "Waiting to sync", className: "text-yellow-600" },
+  synced: { icon: Cloud, label: "Synced", className: "text-muted-foreground" },
+  failed: { icon: AlertTriangle, label: "Rejected by the server", className: "text-destructive" },
+};
+
+export const SyncStatusBadge = ({ status = "pending" }: { status?: SyncStatus }) => {
+  const { icon: Icon, label, className } = statusDisplay[status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className={`inline-flex ${className}`} aria-label={label}>
+          <Icon className="h-4 w-4" />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,112 @@
+import { KeyboardEvent, useState } from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { addTag, formatTag, normalizeTag } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+type TagInputProps = {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Existing tags offered as completions, most used first
+  suggestions: string[];
+};
+
+const MAX_SUGGESTIONS = 6;
+
+// Chips for the current tags plus a text box that completes from existing ones.
+// Enter, comma or Tab adds the typed tag; Backspace on an empty box removes the last.
+export const TagInput = ({ id, tags, onChange, suggestions }: TagInputProps) => {
+  const [text, setText] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const [focused, setFocused] = useState(false);
+
+  const query = normalizeTag(text);
+  const matches = query
+    ? suggestions.filter((tag) => tag.includes(query) && !tags.includes(tag)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const commit = (value: string) => {
+    onChange(addTag(tags, value));
+    setText("");
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % matches.length);
+    } else if (e.key === "ArrowUp" && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === "Enter" || e.key === "," || (e.key === "Tab" && text.trim() !== "")) {
+      if (text.trim() === "") return;
+      e.preventDefault();
+      commit(matches[highlighted] ?? text);
+    } else if (e.key === "Backspace" && text === "" && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+              {formatTag(tag)}
+              <button
+                type="button"
+                aria-label={`Remove ${formatTag(tag)}`}
+                className="rounded-full hover:bg-muted-foreground/20"
+                onClick={() => onChange(tags.filter((t) => t !== tag))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <Input
+          id={id}
+          placeholder="Add tags, e.g. vacation2025"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          // Commit whatever was typed when leaving the field
+          onBlur={() => {
+            setFocused(false);
+            if (text.trim() !== "") commit(text);
+          }}
+        />
+        {focused && matches.length > 0 && (
+          <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+            {matches.map((tag, index) => (
+              <li
+                key={tag}
+                className={cn(
+                  "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+                  index === highlighted && "bg-accent text-accent-foreground",
+                )}
+                // Keep focus in the input so blur doesn't commit the partial text first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  commit(tag);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+              >
+                {formatTag(tag)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { Transaction } from "@/data/mockData";
+import { useAccounts } from "@/context/AccountContext";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { formatMoney } from "@/lib/money";
+
+// Signed amount in the transaction's own currency, with the base-currency
+// equivalent underneath when the two differ. Transfers are shown as the pair
+// of movements they make: out of the source account and into the destination.
+export const TransactionAmount = ({ transaction }: { transaction: Transaction }) => {
+  const converter = useBaseCurrency();
+  const { accounts } = useAccounts();
+  const isForeign = transaction.amount.currency !== converter.base;
+  const converted = isForeign ? converter.toBase(transaction) : null;
+
+  if (transaction.type === "transfer") {
+    const accountName = (id?: string) => accounts.find((a) => a.id === id)?.name ?? "Unknown account";
+    return (
+      <div className="flex flex-col items-end text-sm">
+        <span className="font-semibold text-muted-foreground">
+          -{formatMoney(transaction.amount)} · {accountName(transaction.accountId)}
+        </span>
+        <span className="font-semibold text-muted-foreground">
+          +{formatMoney(transaction.amount)} · {accountName(transaction.toAccountId)}
+        </span>
+      </div>
+    );
+  }
+
+  const sign = transaction.type === "income" ? "+" : "-";
+
+  return (
+    <div className="flex flex-col items-end">
+      <span className={`font-semibold ${
+        transaction.type === "income" ? "text-green-600" : "text-red-600"
+      }`}>
+        {sign}{formatMoney(transaction.amount)}
+      </span>
+      {isForeign && (
+        <span className="text-xs text-muted-foreground">
+          {converted ? `≈ ${sign}${formatMoney(converted)}` : "No exchange rate"}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -5,56 +5,240 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { incomeCategories, expenseCategories, Transaction } from "@/data/mockData";
+import { Switch } from "@/components/ui/switch";
+import { SplitLinesEditor } from "@/components/SplitLinesEditor";
+import { RecurrenceFields } from "@/components/RecurrenceFields";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { TagInput } from "@/components/TagInput";
+import { AttachmentsField } from "@/components/AttachmentsField";
+import { PayeeInput } from "@/components/PayeeInput";
+import { Link } from "react-router-dom";
+import { SPLIT_CATEGORY, Transaction, TransactionType, TRANSFER_CATEGORY } from "@/data/mockData";
+import { useTransactions } from "@/context/TransactionContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { useAccounts } from "@/context/AccountContext";
+import { useRecurring } from "@/context/RecurringContext";
+import { useCategories } from "@/context/CategoryContext";
+import { useAttachments } from "@/context/AttachmentContext";
+import { useCategoryRules } from "@/context/CategoryRuleContext";
+import { usePayees } from "@/context/PayeeContext";
+import { useCategoryClassifier } from "@/hooks/use-category-classifier";
+import { DEFAULT_ACCOUNT_ID } from "@/lib/accounts";
+import { categoriesFor } from "@/lib/categories";
+import { MIN_SUGGESTION_CONFIDENCE, suggestCategory } from "@/lib/classifier";
+import { findDuplicates } from "@/lib/duplicates";
+import { SUPPORTED_CURRENCIES } from "@/lib/exchangeRates";
+import { parseMoney, toInputValue } from "@/lib/money";
+import { matchPayee, normalizeDescription } from "@/lib/payees";
+import { parseSplitDrafts, SplitDraft, splitsTotal, toSplitDraft, transactionCategories } from "@/lib/splits";
+import { findCategoryRule } from "@/lib/rules";
+import { addTag, collectTags } from "@/lib/tags";
+import { defaultRecurrenceDraft, parseRecurrenceDraft, RecurrenceDraft } from "@/lib/recurrence";
 
 type TransactionModalProps = {
   open: boolean;
   onClose: () => void;
   transaction?: Transaction | null;
+  // Start a new transaction with "Make recurring" switched on
+  defaultRecurring?: boolean;
 };
 
-export const TransactionModal = ({ open, onClose, transaction }: TransactionModalProps) => {
-  const [type, setType] = useState<"income" | "expense">("expense");
+export const TransactionModal = ({ open, onClose, transaction, defaultRecurring = false }: TransactionModalProps) => {
+  const { transactions, addTransaction, updateTransaction } = useTransactions();
+  const { addRule } = useRecurring();
+  const { baseCurrency, duplicateWindowDays } = usePreferences();
+  const { accounts } = useAccounts();
+  const { categories: registry } = useCategories();
+  const { attachmentsFor, addAttachments, deleteAttachment } = useAttachments();
+  const { categoryRules } = useCategoryRules();
+  const classifier = useCategoryClassifier();
+  const { payees, getPayee, addPayee } = usePayees();
+  const [accountId, setAccountId] = useState(DEFAULT_ACCOUNT_ID);
+  const [toAccountId, setToAccountId] = useState("");
+  const [type, setType] = useState<TransactionType>("expense");
   const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(baseCurrency);
   const [category, setCategory] = useState("");
+  // Empty unless the amount is split across categories
+  const [splits, setSplits] = useState<SplitDraft[]>([]);
   const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
   const [description, setDescription] = useState("");
+  // Typed or picked payee name, null until changed from the transaction's own
+  const [payeeInput, setPayeeInput] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  // Attachment changes are applied on save, so Cancel leaves them untouched
+  const [newFiles, setNewFiles] = useState<File[]>([]);
+  const [removedAttachments, setRemovedAttachments] = useState<string[]>([]);
+  const [repeat, setRepeat] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft>(defaultRecurrenceDraft);
 
   // Populate form when editing a transaction
   useEffect(() => {
     if (transaction) {
+      setAccountId(transaction.accountId);
+      setToAccountId(transaction.toAccountId ?? "");
       setType(transaction.type);
-      setAmount(transaction.amount.toString());
-      setCategory(transaction.category);
+      setAmount(toInputValue(transaction.amount));
+      setCurrency(transaction.amount.currency);
+      setCategory(transaction.category === SPLIT_CATEGORY ? "" : transaction.category);
+      setSplits((transaction.splits ?? []).map(toSplitDraft));
       setDate(transaction.date);
       setDescription(transaction.description);
+      setTags(transaction.tags ?? []);
+      setRepeat(false);
     } else {
       // Reset form for new transaction
+      setAccountId(DEFAULT_ACCOUNT_ID);
+      setToAccountId("");
       setType("expense");
       setAmount("");
+      setCurrency(baseCurrency);
       setCategory("");
+      setSplits([]);
       setDate(new Date().toISOString().split("T")[0]);
       setDescription("");
+      setTags([]);
+      setRepeat(defaultRecurring);
     }
-  }, [transaction, open]);
+    setRecurrence(defaultRecurrenceDraft());
+    setPayeeInput(null);
+    setNewFiles([]);
+    setRemovedAttachments([]);
+  }, [transaction, open, baseCurrency, defaultRecurring]);
+
+  const isTransfer = type === "transfer";
+  const isSplit = !isTransfer && splits.length > 0;
+  const parsedAmount = parseMoney(amount, currency);
+  const parsedSplits = isSplit ? parseSplitDrafts(splits, currency) : null;
+  // Split lines must add up to the transaction amount exactly
+  const splitsValid =
+    parsedSplits !== null &&
+    parsedAmount !== null &&
+    splitsTotal(parsedSplits, currency).amount === parsedAmount.amount;
+  // New entries follow the first matching rule until a category is picked by hand
+  const matchedRule =
+    !transaction && !isTransfer && !isSplit && category === ""
+      ? findCategoryRule(categoryRules, { type, description, amount: parsedAmount })
+      : undefined;
+  const effectiveCategory = matchedRule?.category ?? category;
+  // Left empty, the payee is matched from the description
+  const payeeName = payeeInput ?? getPayee(transaction?.payeeId)?.name ?? "";
+  const typedPayee = payees.find((p) => p.name.toLowerCase() === payeeName.trim().toLowerCase());
+  const matchedPayee = !isTransfer && payeeName.trim() === "" ? matchPayee(description, payees) : undefined;
+
+  // Warn, without blocking, when a new entry looks like one already recorded
+  const possibleDuplicates =
+    !transaction && !repeat && parsedAmount && parsedAmount.amount > 0
+      ? findDuplicates(
+          { type, amount: parsedAmount, date, description, accountId, toAccountId: isTransfer ? toAccountId : undefined },
+          transactions,
+          duplicateWindowDays,
+        )
+      : [];
+  const schedule = repeat ? parseRecurrenceDraft(recurrence, date) : null;
+  const isValid =
+    (!repeat || schedule !== null) &&
+    parsedAmount !== null &&
+    parsedAmount.amount > 0 &&
+    (isTransfer
+      ? toAccountId !== "" && toAccountId !== accountId
+      : isSplit ? splitsValid : effectiveCategory !== "") &&
+    date !== "" &&
+    accounts.some((a) => a.id === accountId);
+
+  // A new series has no transaction to hold files until it generates one
+  const newRecurring = !transaction && repeat;
 
   const handleSubmit = () => {
-    // TODO: Implement save/update functionality
-    console.log('Saving transaction:', {
+    if (!isValid) return;
+
+    // A new name becomes a payee, with this description as its first alias
+    let payee = payeeName.trim() ? typedPayee : matchedPayee;
+    if (!payee && payeeName.trim() && !isTransfer) {
+      const alias = normalizeDescription(description);
+      const aliases = alias && alias !== normalizeDescription(payeeName) ? [alias] : [];
+      payee = addPayee({ name: payeeName.trim(), aliases });
+    }
+    const allTags = matchedRule ? matchedRule.tags.reduce(addTag, tags) : tags;
+    // A transfer is stored as one record so both sides are edited together
+    const template = {
       type,
-      amount: parseFloat(amount),
-      category,
-      date,
-      description,
-      id: transaction?.id
-    });
+      accountId,
+      toAccountId: isTransfer ? toAccountId : undefined,
+      amount: parsedAmount,
+      category: isTransfer ? TRANSFER_CATEGORY : isSplit ? SPLIT_CATEGORY : effectiveCategory,
+      splits: isSplit ? parsedSplits ?? undefined : undefined,
+      description: description.trim(),
+      tags: allTags.length > 0 ? allTags : undefined,
+      payeeId: isTransfer ? undefined : payee?.id,
+    };
+    const values = { ...template, date };
+    // Record the attachments belong to; a new recurring rule has none yet
+    let saved: Transaction | null | undefined = transaction;
+
+    if (schedule) {
+      // A new rule creates its own instances, starting with this date if it is
+      // already due. An existing transaction becomes the rule's first instance.
+      if (transaction) {
+        const rule = addRule({ ...schedule, template, generatedThrough: date });
+        updateTransaction({ ...transaction, ...values, recurringRuleId: rule.id });
+      } else {
+        addRule({ ...schedule, template });
+      }
+    } else if (transaction) {
+      updateTransaction({ ...transaction, ...values });
+    } else {
+      saved = addTransaction(values);
+    }
+
+    if (saved) {
+      if (newFiles.length > 0) addAttachments(saved.id, newFiles);
+      removedAttachments.forEach(deleteAttachment);
+    }
     onClose();
   };
 
-  const categories = type === "income" ? incomeCategories : expenseCategories;
+  // New entries default to the currency of the account they are booked against
+  const handleAccountChange = (id: string) => {
+    setAccountId(id);
+    const account = accounts.find((a) => a.id === id);
+    if (account && !transaction) setCurrency(account.openingBalance.currency);
+  };
+
+  // The current category and amount become the first line
+  const startSplit = () =>
+    setSplits([
+      { category: effectiveCategory, amount: parsedAmount ? toInputValue(parsedAmount) : "", memo: "" },
+      { category: "", amount: "", memo: "" },
+    ]);
+
+  // Archived categories stay selectable on the transaction that already uses them
+  const categories = categoriesFor(
+    registry,
+    type === "income" ? "income" : "expense",
+    transaction ? transactionCategories(transaction) : [],
+  );
+  // Learned from history; offered rather than applied, and only when no rule decided
+  const suggestion =
+    !isTransfer && !isSplit && !matchedRule
+      ? suggestCategory(classifier, { type, description, amount: parsedAmount }, categories.map((c) => c.id))
+      : null;
+  const showSuggestion =
+    suggestion !== null && suggestion.confidence >= MIN_SUGGESTION_CONFIDENCE && suggestion.category !== category;
+  const accountOptions = (exclude?: string) =>
+    accounts
+      .filter((account) => account.id !== exclude)
+      .map((account) => (
+        <SelectItem key={account.id} value={account.id}>
+          {account.name}
+        </SelectItem>
+      ));
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent
+        className={`max-h-[90vh] overflow-y-auto ${isSplit ? "sm:max-w-[560px]" : "sm:max-w-[425px]"}`}
+      >
         <DialogHeader>
           <DialogTitle>{transaction ? 'Edit Transaction' : 'Add Transaction'}</DialogTitle>
         </DialogHeader>
@@ -63,9 +247,10 @@ export const TransactionModal = ({ open, onClose, transaction }: TransactionModa
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="type">Type</Label>
-              <Select value={type} onValueChange={(value: "income" | "expense") => {
+              <Select value={type} onValueChange={(value: TransactionType) => {
                 setType(value);
                 setCategory(""); // Reset category when type changes
+                setSplits([]);
               }}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select type" />
@@ -73,15 +258,16 @@ export const TransactionModal = ({ open, onClose, transaction }: TransactionModa
                 <SelectContent>
                   <SelectItem value="income">Income</SelectItem>
                   <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="transfer">Transfer</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="amount">Amount ($)</Label>
+              <Label htmlFor="amount">Amount ({currency})</Label>
               <Input
                 id="amount"
-                type="number"
+                inputMode="decimal"
                 placeholder="0.00"
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
@@ -89,30 +275,121 @@ export const TransactionModal = ({ open, onClose, transaction }: TransactionModa
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="category">Category</Label>
-            <Select value={category} onValueChange={setCategory}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select category" />
-              </SelectTrigger>
-              <SelectContent>
-                {categories.map((cat) => (
-                  <SelectItem key={cat} value={cat}>
-                    {cat}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {isTransfer ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="account">From Account</Label>
+                <Select value={accountId} onValueChange={handleAccountChange}>
+                  <SelectTrigger id="account">
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>{accountOptions()}</SelectContent>
+                </Select>
+              </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="date">Date</Label>
-            <Input
-              id="date"
-              type="date"
-              value={date}
-              onChange={(e) => setDate(e.target.value)}
-            />
+              <div className="space-y-2">
+                <Label htmlFor="to-account">To Account</Label>
+                <Select value={toAccountId} onValueChange={setToAccountId}>
+                  <SelectTrigger id="to-account">
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>{accountOptions(accountId)}</SelectContent>
+                </Select>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="account">Account</Label>
+                <Select value={accountId} onValueChange={handleAccountChange}>
+                  <SelectTrigger id="account">
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>{accountOptions()}</SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="category">{isSplit ? "Split Lines" : "Category"}</Label>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={isSplit ? () => setSplits([]) : startSplit}
+                  >
+                    {isSplit ? "Use one category" : "Split"}
+                  </Button>
+                </div>
+                {isSplit ? (
+                  <SplitLinesEditor
+                    lines={splits}
+                    onChange={setSplits}
+                    categories={categories}
+                    total={parsedAmount}
+                    currency={currency}
+                  />
+                ) : (
+                  <Select value={effectiveCategory} onValueChange={setCategory}>
+                    <SelectTrigger id="category">
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <CategoryOptions categories={categories} />
+                    </SelectContent>
+                  </Select>
+                )}
+                {matchedRule && (
+                  <p className="text-xs text-muted-foreground">
+                    Picked by the rule "{matchedRule.name}"
+                    {matchedRule.tags.length > 0 && `, which also adds ${matchedRule.tags.join(", ")}`}
+                  </p>
+                )}
+                {showSuggestion && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>Suggested:</span>
+                    <CategoryLabel id={suggestion.category} className="text-foreground" />
+                    <span>{Math.round(suggestion.confidence * 100)}% likely</span>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => setCategory(suggestion.category)}
+                    >
+                      Use
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="currency">Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="date">Date</Label>
+              <Input
+                id="date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -124,13 +401,83 @@ export const TransactionModal = ({ open, onClose, transaction }: TransactionModa
               onChange={(e) => setDescription(e.target.value)}
             />
           </div>
+
+          {!isTransfer && (
+            <div className="space-y-2">
+              <Label htmlFor="payee">Payee</Label>
+              <PayeeInput
+                id="payee"
+                value={payeeName}
+                onChange={setPayeeInput}
+                placeholder={matchedPayee?.name}
+              />
+              {matchedPayee ? (
+                <p className="text-xs text-muted-foreground">Matched from the description</p>
+              ) : (
+                payeeName.trim() !== "" &&
+                !typedPayee && <p className="text-xs text-muted-foreground">New payee, added when you save</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags</Label>
+            <TagInput id="tags" tags={tags} onChange={setTags} suggestions={collectTags(transactions)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Attachments</Label>
+            <AttachmentsField
+              saved={transaction ? attachmentsFor(transaction.id).filter((a) => !removedAttachments.includes(a.id)) : []}
+              pending={newFiles}
+              onAdd={(files) => setNewFiles((prev) => [...prev, ...files])}
+              onRemoveSaved={(id) => setRemovedAttachments((prev) => [...prev, id])}
+              onRemovePending={(index) => setNewFiles((prev) => prev.filter((_, i) => i !== index))}
+              disabledReason={
+                newRecurring ? "Files can be attached to each transaction once the series creates it" : undefined
+              }
+            />
+          </div>
+
+          {transaction?.recurringRuleId ? (
+            <p className="text-sm text-muted-foreground">
+              Part of a recurring series.{" "}
+              <Link to="/recurring" className="text-primary underline-offset-4 hover:underline" onClick={onClose}>
+                Manage recurring transactions
+              </Link>
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="repeat">Make recurring</Label>
+                <Switch
+                  id="repeat"
+                  checked={repeat}
+                  onCheckedChange={setRepeat}
+                  disabled={!transaction && newFiles.length > 0}
+                />
+              </div>
+              {!transaction && newFiles.length > 0 && (
+                <p className="text-xs text-muted-foreground">Remove the attachments to make this recurring</p>
+              )}
+              {repeat && <RecurrenceFields value={recurrence} onChange={setRecurrence} startDate={date} />}
+            </div>
+          )}
         </div>
 
+        {possibleDuplicates.length > 0 && (
+          <p className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+            Possible duplicate of "{possibleDuplicates[0].description || "Untitled"}" on {possibleDuplicates[0].date}
+            {possibleDuplicates.length > 1 && ` and ${possibleDuplicates.length - 1} more`}. Add it anyway if it's a
+            separate purchase.
+          </p>
+        )}
+
         <div className="flex justify-end space-x-2">
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={handleSubmit}>
+          <Button onClick={handleSubmit} disabled={!isValid}>
             {transaction ? 'Update' : 'Add Transaction'}
           </Button>
         </div>
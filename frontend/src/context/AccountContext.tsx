@@ -0,0 +1,63 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { Account, AccountInput } from "@/lib/accounts";
+import { STORES, getAll, put, remove } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+type AccountContextType = {
+  accounts: Account[];
+  addAccount: (input: AccountInput) => Account;
+  updateAccount: (account: Account) => void;
+  deleteAccount: (id: string) => void;
+};
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+// Accounts are kept on the device only; transactions reference them by id
+export const AccountProvider = ({ children }: { children: ReactNode }) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useEffect(() => {
+    getAll<Account>(STORES.accounts)
+      .then(setAccounts)
+      .catch(() => loadFailed("accounts"));
+  }, []);
+
+  const addAccount = (input: AccountInput) => {
+    const account = { ...input, id: genId() };
+    setAccounts((prev) => [...prev, account]);
+    persist(put(STORES.accounts, account), "Couldn't add the account", () =>
+      setAccounts((prev) => prev.filter((a) => a.id !== account.id)),
+    );
+    return account;
+  };
+
+  const updateAccount = (account: Account) => {
+    const previous = accounts.find((a) => a.id === account.id);
+    setAccounts((prev) => prev.map((a) => (a.id === account.id ? account : a)));
+    persist(put(STORES.accounts, account), "Couldn't update the account", () =>
+      setAccounts((prev) => prev.map((a) => (a.id === account.id && previous ? previous : a))),
+    );
+  };
+
+  const deleteAccount = (id: string) => {
+    const previous = accounts.find((a) => a.id === id);
+    setAccounts((prev) => prev.filter((a) => a.id !== id));
+    persist(remove(STORES.accounts, id), "Couldn't delete the account", () =>
+      setAccounts((prev) => (previous ? [...prev, previous] : prev)),
+    );
+  };
+
+  return (
+    <AccountContext.Provider value={{ accounts, addAccount, updateAccount, deleteAccount }}>
+      {children}
+    </AccountContext.Provider>
+  );
+};
+
+export const useAccounts = () => {
+  const context = useContext(AccountContext);
+  if (!context) throw new Error("useAccounts must be used within AccountProvider");
+  return context;
+};
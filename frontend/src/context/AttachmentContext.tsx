@@ -0,0 +1,152 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from "react";
+import { useTransactions } from "@/context/TransactionContext";
+import { Attachment, blobToBase64 } from "@/lib/attachments";
+import { STORES, getAll, put, remove, transact, promisify } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+import { attachmentAPI } from "@/services/api";
+
+type AttachmentContextType = {
+  attachments: Attachment[];
+  attachmentsFor: (transactionId: string) => Attachment[];
+  addAttachments: (transactionId: string, files: File[]) => void;
+  deleteAttachment: (id: string) => void;
+  // Call alongside deleteTransaction
+  deleteAttachmentsFor: (transactionId: string) => void;
+  // Re-files attachments under another transaction, e.g. when merging duplicates
+  moveAttachments: (fromTransactionId: string, toTransactionId: string) => void;
+  // Sends a copy to the backend; the transaction must have synced first
+  uploadAttachment: (id: string) => Promise<void>;
+};
+
+const AttachmentContext = createContext<AttachmentContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+const NONE: Attachment[] = [];
+
+// Attachments live in IndexedDB next to the transactions. Uploading is opt-in
+// per file, so receipts stay on the device unless the user sends them.
+export const AttachmentProvider = ({ children }: { children: ReactNode }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const { transactions } = useTransactions();
+
+  useEffect(() => {
+    getAll<Attachment>(STORES.attachments)
+      .then(setAttachments)
+      .catch(() => loadFailed("attachments"));
+  }, []);
+
+  const byTransaction = useMemo(() => {
+    const map = new Map<string, Attachment[]>();
+    for (const a of attachments) map.set(a.transactionId, [...(map.get(a.transactionId) ?? []), a]);
+    return map;
+  }, [attachments]);
+
+  const attachmentsFor = useCallback((transactionId: string) => byTransaction.get(transactionId) ?? NONE, [byTransaction]);
+
+  const addAttachments = (transactionId: string, files: File[]) => {
+    const added = files.map((file) => ({
+      id: genId(),
+      transactionId,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      blob: file,
+      createdAt: new Date().toISOString(),
+    }));
+    setAttachments((prev) => [...prev, ...added]);
+    // Large files are the likeliest to hit the storage quota
+    const write = transact([STORES.attachments], "readwrite", (tx) => {
+      added.forEach((attachment) => tx.objectStore(STORES.attachments).put(attachment));
+    });
+    const ids = new Set<string>(added.map((a) => a.id));
+    persist(write, `Couldn't save ${added.length === 1 ? "the attachment" : "the attachments"}`, () =>
+      setAttachments((prev) => prev.filter((a) => !ids.has(a.id))),
+    );
+  };
+
+  const restore = (removed: Attachment[]) => setAttachments((prev) => [...prev, ...removed]);
+
+  // Removing the server copy is best effort; one left behind is deleted with its transaction
+  const deleteRemote = (attachment: Attachment) => {
+    if (attachment.remoteId) attachmentAPI.delete(attachment.remoteId).catch(() => {});
+  };
+
+  // The server copy goes only once the local one is gone, so a failed delete leaves both
+  const deleteAttachment = (id: string) => {
+    const attachment = attachments.find((a) => a.id === id);
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
+    persist(remove(STORES.attachments, id), "Couldn't delete the attachment", () =>
+      restore(attachment ? [attachment] : []),
+    ).then((stored) => stored && attachment && deleteRemote(attachment));
+  };
+
+  const deleteAttachmentsFor = (transactionId: string) => {
+    const removed = byTransaction.get(transactionId) ?? NONE;
+    setAttachments((prev) => prev.filter((a) => a.transactionId !== transactionId));
+    const write = transact([STORES.attachments], "readwrite", async (tx) => {
+      const store = tx.objectStore(STORES.attachments);
+      const keys = await promisify(store.index("transactionId").getAllKeys(transactionId));
+      for (const key of keys) await promisify(store.delete(key));
+    });
+    persist(write, "Couldn't delete the attachments", () => restore(removed));
+  };
+
+  // A server copy belongs to the old transaction's record, so it's dropped and
+  // the moved file can be uploaded again
+  const moveAttachments = (fromTransactionId: string, toTransactionId: string) => {
+    const original = byTransaction.get(fromTransactionId) ?? NONE;
+    if (original.length === 0) return;
+    const moved = original.map((attachment) => ({
+      ...attachment,
+      transactionId: toTransactionId,
+      remoteId: undefined,
+    }));
+    setAttachments((prev) => prev.map((a) => moved.find((m) => m.id === a.id) ?? a));
+    const write = transact([STORES.attachments], "readwrite", (tx) => {
+      moved.forEach((attachment) => tx.objectStore(STORES.attachments).put(attachment));
+    });
+    persist(write, "Couldn't move the attachments", () =>
+      setAttachments((prev) => prev.map((a) => original.find((o) => o.id === a.id) ?? a)),
+    ).then((stored) => stored && original.forEach(deleteRemote));
+  };
+
+  const uploadAttachment = async (id: string) => {
+    const attachment = attachments.find((a) => a.id === id);
+    if (!attachment || attachment.remoteId) return;
+    const remoteTransactionId = transactions.find((t) => t.id === attachment.transactionId)?.remoteId;
+    if (!remoteTransactionId) throw new Error("Sync the transaction before uploading its attachments");
+
+    const remoteId = await attachmentAPI.upload({
+      transactionId: remoteTransactionId,
+      name: attachment.name,
+      type: attachment.type,
+      data: await blobToBase64(attachment.blob),
+    });
+    const uploaded = { ...attachment, remoteId };
+    setAttachments((prev) => prev.map((a) => (a.id === id ? uploaded : a)));
+    await put(STORES.attachments, uploaded);
+  };
+
+  return (
+    <AttachmentContext.Provider
+      value={{
+        attachments,
+        attachmentsFor,
+        addAttachments,
+        deleteAttachment,
+        deleteAttachmentsFor,
+        moveAttachments,
+        uploadAttachment,
+      }}
+    >
+      {children}
+    </AttachmentContext.Provider>
+  );
+};
+
+export const useAttachments = () => {
+  const context = useContext(AttachmentContext);
+  if (!context) throw new Error("useAttachments must be used within AttachmentProvider");
+  return context;
+};
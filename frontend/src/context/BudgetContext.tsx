@@ -0,0 +1,122 @@
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from "react";
+import { useTransactions } from "@/context/TransactionContext";
+import { useExchangeRates } from "@/context/ExchangeRateContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { useCategories } from "@/context/CategoryContext";
+import { Budget, BudgetInput, BudgetState, BudgetStatus, computeBudgetStatuses, monthKey } from "@/lib/budgets";
+import { STORES, getAll, put, remove } from "@/lib/db";
+import { abs, formatMoney } from "@/lib/money";
+import { loadFailed, persist } from "@/lib/storageErrors";
+import { toast } from "@/hooks/use-toast";
+
+type BudgetContextType = {
+  budgets: Budget[];
+  // This month's progress for every budget
+  statuses: BudgetStatus[];
+  addBudget: (input: BudgetInput) => Budget;
+  // Both resolve to whether the change was stored
+  updateBudget: (budget: Budget) => Promise<boolean>;
+  deleteBudget: (id: string) => Promise<boolean>;
+};
+
+const BudgetContext = createContext<BudgetContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+// Last alert level shown per budget and month, so a reload doesn't repeat it
+const ALERTS_KEY = "budgetAlerts";
+const severity: Record<BudgetState, number> = { ok: 0, warning: 1, over: 2 };
+
+const readSentAlerts = (): Record<string, BudgetState> => JSON.parse(localStorage.getItem(ALERTS_KEY) ?? "{}");
+
+function alertFor({ budget, percentUsed, remaining, state }: BudgetStatus, categoryName: string) {
+  if (state === "over") {
+    toast({
+      title: `${categoryName} budget exceeded`,
+      description: `You are ${formatMoney(abs(remaining))} over your ${formatMoney(budget.limit)} limit this month.`,
+      variant: "destructive",
+    });
+  } else {
+    toast({
+      title: `${categoryName} budget almost used`,
+      description: `${percentUsed}% of your ${formatMoney(budget.limit)} limit is spent this month.`,
+    });
+  }
+}
+
+export const BudgetProvider = ({ children }: { children: ReactNode }) => {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const { transactions, isLoading } = useTransactions();
+  const { rates } = useExchangeRates();
+  const { budgetAlerts } = usePreferences();
+  const { getCategory } = useCategories();
+
+  useEffect(() => {
+    getAll<Budget>(STORES.budgets)
+      .then(setBudgets)
+      .catch(() => loadFailed("budgets"))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  const statuses = useMemo(
+    () => computeBudgetStatuses(budgets, transactions, rates),
+    [budgets, transactions, rates],
+  );
+
+  // Toast when a budget reaches the warning level or goes over. Dropping back
+  // (a bigger limit, a deleted expense) re-arms the alert for that level.
+  useEffect(() => {
+    if (!budgetAlerts || !loaded || isLoading) return;
+    const month = monthKey();
+    const sent = readSentAlerts();
+    let changed = false;
+
+    for (const status of statuses) {
+      const key = `${status.budget.id}:${month}`;
+      const previous = sent[key] ?? "ok";
+      if (status.state === previous) continue;
+      if (severity[status.state] > severity[previous]) alertFor(status, getCategory(status.budget.category).name);
+      sent[key] = status.state;
+      changed = true;
+    }
+    if (changed) localStorage.setItem(ALERTS_KEY, JSON.stringify(sent));
+  }, [statuses, budgetAlerts, loaded, isLoading, getCategory]);
+
+  const addBudget = (input: BudgetInput) => {
+    const budget = { ...input, id: genId() };
+    setBudgets((prev) => [...prev, budget]);
+    persist(put(STORES.budgets, budget), "Couldn't add the budget", () =>
+      setBudgets((prev) => prev.filter((b) => b.id !== budget.id)),
+    );
+    return budget;
+  };
+
+  const updateBudget = (budget: Budget) => {
+    const previous = budgets.find((b) => b.id === budget.id);
+    setBudgets((prev) => prev.map((b) => (b.id === budget.id ? budget : b)));
+    return persist(put(STORES.budgets, budget), "Couldn't update the budget", () =>
+      setBudgets((prev) => prev.map((b) => (b.id === budget.id && previous ? previous : b))),
+    );
+  };
+
+  const deleteBudget = (id: string) => {
+    const previous = budgets.find((b) => b.id === id);
+    setBudgets((prev) => prev.filter((b) => b.id !== id));
+    return persist(remove(STORES.budgets, id), "Couldn't delete the budget", () =>
+      setBudgets((prev) => (previous ? [...prev, previous] : prev)),
+    );
+  };
+
+  return (
+    <BudgetContext.Provider value={{ budgets, statuses, addBudget, updateBudget, deleteBudget }}>
+      {children}
+    </BudgetContext.Provider>
+  );
+};
+
+export const useBudgets = () => {
+  const context = useContext(BudgetContext);
+  if (!context) throw new Error("useBudgets must be used within BudgetProvider");
+  return context;
+};
@@ -0,0 +1,83 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from "react";
+import { Category, CategoryInput, unknownCategory } from "@/lib/categories";
+import { STORES, getAll, put, remove, transact } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+type CategoryContextType = {
+  categories: Category[];
+  // Never fails: ids missing from the registry get a neutral placeholder
+  getCategory: (id: string) => Category;
+  addCategory: (input: CategoryInput) => Category;
+  // Rename, recolor, change icon, re-parent or (un)archive
+  // Resolves to whether the change was stored
+  updateCategory: (category: Category) => Promise<boolean>;
+  // Only for merges, once nothing references the category any more (see useMergeCategory)
+  deleteCategory: (id: string) => void;
+};
+
+const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+
+// Categories are kept on the device only; the backend just stores the ids
+export const CategoryProvider = ({ children }: { children: ReactNode }) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    getAll<Category>(STORES.categories)
+      .then((stored) => setCategories(stored.sort(byName)))
+      .catch(() => loadFailed("categories"));
+  }, []);
+
+  const byId = useMemo(() => new Map(categories.map((c) => [c.id, c])), [categories]);
+  const getCategory = useCallback((id: string) => byId.get(id) ?? unknownCategory(id), [byId]);
+
+  const addCategory = (input: CategoryInput) => {
+    const category = { ...input, id: genId(), archived: false };
+    setCategories((prev) => [...prev, category].sort(byName));
+    persist(put(STORES.categories, category), "Couldn't add the category", () =>
+      setCategories((prev) => prev.filter((c) => c.id !== category.id)),
+    );
+    return category;
+  };
+
+  const updateCategory = (category: Category) => {
+    // Subcategories follow their parent's kind
+    const changed = new Map([[category.id, category]]);
+    for (const child of categories) {
+      if (child.parentId === category.id && child.kind !== category.kind) {
+        changed.set(child.id, { ...child, kind: category.kind });
+      }
+    }
+    const previous = new Map(categories.filter((c) => changed.has(c.id)).map((c) => [c.id, c]));
+    setCategories((prev) => prev.map((c) => changed.get(c.id) ?? c).sort(byName));
+    const write = transact([STORES.categories], "readwrite", (tx) => {
+      changed.forEach((c) => tx.objectStore(STORES.categories).put(c));
+    });
+    return persist(write, "Couldn't update the category", () =>
+      setCategories((prev) => prev.map((c) => previous.get(c.id) ?? c).sort(byName)),
+    );
+  };
+
+  const deleteCategory = (id: string) => {
+    const previous = categories.find((c) => c.id === id);
+    setCategories((prev) => prev.filter((c) => c.id !== id));
+    persist(remove(STORES.categories, id), "Couldn't delete the category", () =>
+      setCategories((prev) => (previous ? [...prev, previous].sort(byName) : prev)),
+    );
+  };
+
+  return (
+    <CategoryContext.Provider value={{ categories, getCategory, addCategory, updateCategory, deleteCategory }}>
+      {children}
+    </CategoryContext.Provider>
+  );
+};
+
+export const useCategories = () => {
+  const context = useContext(CategoryContext);
+  if (!context) throw new Error("useCategories must be used within CategoryProvider");
+  return context;
+};
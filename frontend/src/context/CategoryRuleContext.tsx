@@ -0,0 +1,87 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { byPriority, CategoryRule, CategoryRuleInput } from "@/lib/rules";
+import { STORES, getAll, put, remove } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+type CategoryRuleContextType = {
+  // In priority order
+  categoryRules: CategoryRule[];
+  // New rules go to the end of the list
+  addCategoryRule: (input: CategoryRuleInput) => CategoryRule;
+  // Resolves to false when the change couldn't be stored and was undone
+  updateCategoryRule: (rule: CategoryRule) => Promise<boolean>;
+  deleteCategoryRule: (id: string) => void;
+  // Swaps priorities with the neighbouring rule
+  moveCategoryRule: (id: string, direction: "up" | "down") => void;
+};
+
+const CategoryRuleContext = createContext<CategoryRuleContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+// Auto-categorization rules are kept on the device only
+export const CategoryRuleProvider = ({ children }: { children: ReactNode }) => {
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+
+  useEffect(() => {
+    getAll<CategoryRule>(STORES.categoryRules)
+      .then((stored) => setCategoryRules(stored.sort(byPriority)))
+      .catch(() => loadFailed("categorization rules"));
+  }, []);
+
+  const save = (changed: CategoryRule[]) => {
+    const byId = new Map(changed.map((r) => [r.id, r]));
+    const previous = new Map(categoryRules.filter((r) => byId.has(r.id)).map((r) => [r.id, r]));
+    setCategoryRules((prev) => prev.map((r) => byId.get(r.id) ?? r).sort(byPriority));
+    return persist(Promise.all(changed.map((r) => put(STORES.categoryRules, r))), "Couldn't save the rule", () => {
+      // Rules that were stored before the failure go back too, so priorities stay consistent
+      previous.forEach((r) => put(STORES.categoryRules, r).catch(() => undefined));
+      setCategoryRules((prev) => prev.map((r) => previous.get(r.id) ?? r).sort(byPriority));
+    });
+  };
+
+  const addCategoryRule = (input: CategoryRuleInput) => {
+    const last = categoryRules[categoryRules.length - 1];
+    const rule = { ...input, id: genId(), priority: last ? last.priority + 1 : 0 };
+    setCategoryRules((prev) => [...prev, rule]);
+    persist(put(STORES.categoryRules, rule), "Couldn't add the rule", () =>
+      setCategoryRules((prev) => prev.filter((r) => r.id !== rule.id)),
+    );
+    return rule;
+  };
+
+  const updateCategoryRule = (rule: CategoryRule) => save([rule]);
+
+  const deleteCategoryRule = (id: string) => {
+    const previous = categoryRules.find((r) => r.id === id);
+    setCategoryRules((prev) => prev.filter((r) => r.id !== id));
+    persist(remove(STORES.categoryRules, id), "Couldn't delete the rule", () =>
+      setCategoryRules((prev) => (previous ? [...prev, previous].sort(byPriority) : prev)),
+    );
+  };
+
+  const moveCategoryRule = (id: string, direction: "up" | "down") => {
+    const index = categoryRules.findIndex((r) => r.id === id);
+    const other = categoryRules[direction === "up" ? index - 1 : index + 1];
+    if (index === -1 || !other) return;
+    const rule = categoryRules[index];
+    save([
+      { ...rule, priority: other.priority },
+      { ...other, priority: rule.priority },
+    ]);
+  };
+
+  return (
+    <CategoryRuleContext.Provider
+      value={{ categoryRules, addCategoryRule, updateCategoryRule, deleteCategoryRule, moveCategoryRule }}
+    >
+      {children}
+    </CategoryRuleContext.Provider>
+  );
+};
+
+export const useCategoryRules = () => {
+  const context = useContext(CategoryRuleContext);
+  if (!context) throw new Error("useCategoryRules must be used within CategoryRuleProvider");
+  return context;
+};
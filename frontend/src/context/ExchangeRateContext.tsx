@@ -0,0 +1,74 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { ExchangeRate, ExchangeRateInput } from "@/lib/exchangeRates";
+import { STORES, getAll, put, remove, replaceAll } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+type ExchangeRateContextType = {
+  rates: ExchangeRate[];
+  addRate: (input: ExchangeRateInput) => void;
+  updateRate: (rate: ExchangeRate) => void;
+  deleteRate: (id: string) => void;
+  // Adds imported rates, replacing any existing rate for the same pair and date
+  importRates: (inputs: ExchangeRateInput[]) => void;
+};
+
+const ExchangeRateContext = createContext<ExchangeRateContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+const sameSlot = (a: ExchangeRateInput, b: ExchangeRateInput) =>
+  a.from === b.from && a.to === b.to && a.date === b.date;
+
+// Exchange rates live only in IndexedDB - they are never fetched or synced
+export const ExchangeRateProvider = ({ children }: { children: ReactNode }) => {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+
+  useEffect(() => {
+    getAll<ExchangeRate>(STORES.exchangeRates)
+      .then(setRates)
+      .catch(() => loadFailed("exchange rates"));
+  }, []);
+
+  const addRate = (input: ExchangeRateInput) => {
+    const rate = { ...input, id: genId() };
+    setRates((prev) => [...prev, rate]);
+    persist(put(STORES.exchangeRates, rate), "Couldn't add the rate", () =>
+      setRates((prev) => prev.filter((r) => r.id !== rate.id)),
+    );
+  };
+
+  const updateRate = (rate: ExchangeRate) => {
+    const previous = rates.find((r) => r.id === rate.id);
+    setRates((prev) => prev.map((r) => (r.id === rate.id ? rate : r)));
+    persist(put(STORES.exchangeRates, rate), "Couldn't update the rate", () =>
+      setRates((prev) => prev.map((r) => (r.id === rate.id && previous ? previous : r))),
+    );
+  };
+
+  const deleteRate = (id: string) => {
+    const previous = rates.find((r) => r.id === id);
+    setRates((prev) => prev.filter((r) => r.id !== id));
+    persist(remove(STORES.exchangeRates, id), "Couldn't delete the rate", () =>
+      setRates((prev) => (previous ? [...prev, previous] : prev)),
+    );
+  };
+
+  const importRates = (inputs: ExchangeRateInput[]) => {
+    const kept = rates.filter((r) => !inputs.some((input) => sameSlot(r, input)));
+    const next = [...kept, ...inputs.map((input) => ({ ...input, id: genId() }))];
+    setRates(next);
+    persist(replaceAll(STORES.exchangeRates, next), "Couldn't import the rates", () => setRates(rates));
+  };
+
+  return (
+    <ExchangeRateContext.Provider value={{ rates, addRate, updateRate, deleteRate, importRates }}>
+      {children}
+    </ExchangeRateContext.Provider>
+  );
+};
+
+export const useExchangeRates = () => {
+  const context = useContext(ExchangeRateContext);
+  if (!context) throw new Error("useExchangeRates must be used within ExchangeRateProvider");
+  return context;
+};
@@ -0,0 +1,96 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { Goal, GoalContribution, GoalContributionInput, GoalInput } from "@/lib/goals";
+import { STORES, getAll, put, remove, transact, promisify } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+type GoalContextType = {
+  goals: Goal[];
+  contributions: GoalContribution[];
+  addGoal: (input: GoalInput) => Goal;
+  updateGoal: (goal: Goal) => void;
+  // Also removes the goal's contributions
+  deleteGoal: (id: string) => void;
+  addContribution: (input: GoalContributionInput) => void;
+  deleteContribution: (id: string) => void;
+};
+
+const GoalContext = createContext<GoalContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+// Goals and their contributions are kept on the device only
+export const GoalProvider = ({ children }: { children: ReactNode }) => {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [contributions, setContributions] = useState<GoalContribution[]>([]);
+
+  useEffect(() => {
+    Promise.all([getAll<Goal>(STORES.goals), getAll<GoalContribution>(STORES.goalContributions)])
+      .then(([storedGoals, storedContributions]) => {
+        setGoals(storedGoals);
+        setContributions(storedContributions);
+      })
+      .catch(() => loadFailed("goals"));
+  }, []);
+
+  const addGoal = (input: GoalInput) => {
+    const goal = { ...input, id: genId(), createdAt: new Date().toISOString().split("T")[0] };
+    setGoals((prev) => [...prev, goal]);
+    persist(put(STORES.goals, goal), "Couldn't add the goal", () =>
+      setGoals((prev) => prev.filter((g) => g.id !== goal.id)),
+    );
+    return goal;
+  };
+
+  const updateGoal = (goal: Goal) => {
+    const previous = goals.find((g) => g.id === goal.id);
+    setGoals((prev) => prev.map((g) => (g.id === goal.id ? goal : g)));
+    persist(put(STORES.goals, goal), "Couldn't update the goal", () =>
+      setGoals((prev) => prev.map((g) => (g.id === goal.id && previous ? previous : g))),
+    );
+  };
+
+  const deleteGoal = (id: string) => {
+    const previous = goals.find((g) => g.id === id);
+    const orphaned = contributions.filter((c) => c.goalId === id);
+    setGoals((prev) => prev.filter((g) => g.id !== id));
+    setContributions((prev) => prev.filter((c) => c.goalId !== id));
+    const write = transact([STORES.goals, STORES.goalContributions], "readwrite", async (tx) => {
+      await promisify(tx.objectStore(STORES.goals).delete(id));
+      for (const c of orphaned) await promisify(tx.objectStore(STORES.goalContributions).delete(c.id));
+    });
+    persist(write, "Couldn't delete the goal", () => {
+      if (previous) setGoals((prev) => [...prev, previous]);
+      setContributions((prev) => [...prev, ...orphaned]);
+    });
+  };
+
+  const addContribution = (input: GoalContributionInput) => {
+    const contribution = { ...input, id: genId() };
+    setContributions((prev) => [...prev, contribution]);
+    persist(put(STORES.goalContributions, contribution), "Couldn't add the contribution", () =>
+      setContributions((prev) => prev.filter((c) => c.id !== contribution.id)),
+    );
+  };
+
+  const deleteContribution = (id: string) => {
+    const previous = contributions.find((c) => c.id === id);
+    setContributions((prev) => prev.filter((c) => c.id !== id));
+    persist(remove(STORES.goalContributions, id), "Couldn't delete the contribution", () =>
+      setContributions((prev) => (previous ? [...prev, previous] : prev)),
+    );
+  };
+
+  return (
+    <GoalContext.Provider
+      value={{ goals, contributions, addGoal, updateGoal, deleteGoal, addContribution, deleteContribution }}
+    >
+      {children}
+    </GoalContext.Provider>
+  );
+};
+
+export const useGoals = () => {
+  const context = useContext(GoalContext);
+  if (!context) throw new Error("useGoals must be used within GoalProvider");
+  return context;
+};
@@ -0,0 +1,70 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { Payee, PayeeInput } from "@/lib/payees";
+import { STORES, getAll, put, remove } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+type PayeeContextType = {
+  // Sorted by name
+  payees: Payee[];
+  getPayee: (id?: string) => Payee | undefined;
+  addPayee: (input: PayeeInput) => Payee;
+  updatePayee: (payee: Payee) => void;
+  // Transactions keep the id; clear it alongside
+  deletePayee: (id: string) => void;
+};
+
+const PayeeContext = createContext<PayeeContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+const byName = (a: Payee, b: Payee) => a.name.localeCompare(b.name);
+
+// Payees are kept on the device; transactions only carry the id
+export const PayeeProvider = ({ children }: { children: ReactNode }) => {
+  const [payees, setPayees] = useState<Payee[]>([]);
+
+  useEffect(() => {
+    getAll<Payee>(STORES.payees)
+      .then((stored) => setPayees(stored.sort(byName)))
+      .catch(() => loadFailed("payees"));
+  }, []);
+
+  const getPayee = (id?: string) => (id ? payees.find((p) => p.id === id) : undefined);
+
+  const addPayee = (input: PayeeInput) => {
+    const payee = { ...input, id: genId() };
+    setPayees((prev) => [...prev, payee].sort(byName));
+    persist(put(STORES.payees, payee), "Couldn't add the payee", () =>
+      setPayees((prev) => prev.filter((p) => p.id !== payee.id)),
+    );
+    return payee;
+  };
+
+  const updatePayee = (payee: Payee) => {
+    const previous = payees.find((p) => p.id === payee.id);
+    setPayees((prev) => prev.map((p) => (p.id === payee.id ? payee : p)).sort(byName));
+    persist(put(STORES.payees, payee), "Couldn't update the payee", () =>
+      setPayees((prev) => prev.map((p) => (p.id === payee.id && previous ? previous : p)).sort(byName)),
+    );
+  };
+
+  const deletePayee = (id: string) => {
+    const previous = payees.find((p) => p.id === id);
+    setPayees((prev) => prev.filter((p) => p.id !== id));
+    persist(remove(STORES.payees, id), "Couldn't delete the payee", () =>
+      setPayees((prev) => (previous ? [...prev, previous].sort(byName) : prev)),
+    );
+  };
+
+  return (
+    <PayeeContext.Provider value={{ payees, getPayee, addPayee, updatePayee, deletePayee }}>
+      {children}
+    </PayeeContext.Provider>
+  );
+};
+
+export const usePayees = () => {
+  const context = useContext(PayeeContext);
+  if (!context) throw new Error("usePayees must be used within PayeeProvider");
+  return context;
+};
@@ -0,0 +1,50 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { DEFAULT_DUPLICATE_WINDOW_DAYS } from "@/lib/duplicates";
+import { CurrencyCode, DEFAULT_CURRENCY } from "@/lib/money";
+
+type Preferences = {
+  baseCurrency: CurrencyCode;
+  // Toast when a category budget is nearly used up or exceeded
+  budgetAlerts: boolean;
+  // How many days apart two entries can be and still count as a likely duplicate
+  duplicateWindowDays: number;
+};
+
+const defaultPreferences: Preferences = {
+  baseCurrency: DEFAULT_CURRENCY,
+  budgetAlerts: true,
+  duplicateWindowDays: DEFAULT_DUPLICATE_WINDOW_DAYS,
+};
+
+type PreferencesContextType = Preferences & {
+  setPreference: <K extends keyof Preferences>(key: K, value: Preferences[K]) => void;
+};
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export const PreferencesProvider = ({ children }: { children: React.ReactNode }) => {
+  const [preferences, setPreferences] = useState<Preferences>(() => {
+    const stored = localStorage.getItem("preferences");
+    return { ...defaultPreferences, ...(stored ? JSON.parse(stored) : {}) };
+  });
+
+  useEffect(() => {
+    localStorage.setItem("preferences", JSON.stringify(preferences));
+  }, [preferences]);
+
+  const setPreference = <K extends keyof Preferences>(key: K, value: Preferences[K]) => {
+    setPreferences((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <PreferencesContext.Provider value={{ ...preferences, setPreference }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (!context) throw new Error("usePreferences must be used within PreferencesProvider");
+  return context;
+};
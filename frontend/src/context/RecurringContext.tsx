@@ -0,0 +1,105 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from "react";
+import { useTransactions } from "@/context/TransactionContext";
+import { useCategoryRules } from "@/context/CategoryRuleContext";
+import { findDueInstances, instanceKey, RecurringRule, RecurringRuleInput } from "@/lib/recurrence";
+import { STORES, getAll, put, remove } from "@/lib/db";
+import { categorize } from "@/lib/rules";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+type RecurringContextType = {
+  rules: RecurringRule[];
+  addRule: (input: RecurringRuleInput) => RecurringRule;
+  // Resolves to whether the change was stored
+  updateRule: (rule: RecurringRule) => Promise<boolean>;
+  // Stops future occurrences; transactions already created are kept
+  deleteRule: (id: string) => void;
+};
+
+const RecurringContext = createContext<RecurringContextType | undefined>(undefined);
+
+const genId = () => crypto.randomUUID();
+
+// Recurring rules live in IndexedDB. Whenever the rules or transactions are
+// (re)loaded, every occurrence that has come due is created as a normal
+// transaction, so it syncs like one typed in by hand.
+export const RecurringProvider = ({ children }: { children: ReactNode }) => {
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const { transactions, isLoading, addTransaction } = useTransactions();
+  const { categoryRules } = useCategoryRules();
+  // Instances created during this session, in case the effect runs again
+  // before the new transactions reach state
+  const created = useRef(new Set<string>());
+
+  useEffect(() => {
+    // Without its rules the generator still runs, with nothing to generate
+    getAll<RecurringRule>(STORES.recurringRules)
+      .then(setRules)
+      .catch(() => loadFailed("recurring transactions"))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // The generator's progress is kept in state even if it can't be stored: the
+  // instances exist, and the next start catches up idempotently from disk.
+  // Undoing it would only make the generator run again and fail again.
+  const markGenerated = useCallback((rule: RecurringRule) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? rule : r)));
+    persist(put(STORES.recurringRules, rule), "Couldn't save recurring progress", () => undefined);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded || isLoading) return;
+    const existing = new Set(created.current);
+    for (const t of transactions) {
+      if (t.recurringRuleId) existing.add(instanceKey(t.recurringRuleId, t.date));
+    }
+
+    for (const { rule, dates, generatedThrough } of findDueInstances(rules, existing)) {
+      for (const date of dates) {
+        created.current.add(instanceKey(rule.id, date));
+        // Each instance is a new transaction, so the category rules apply to it as
+        // they do when one is typed in; transfers and splits keep the template's
+        const instance = { ...rule.template, date, recurringRuleId: rule.id };
+        addTransaction(instance.type === "transfer" ? instance : categorize(categoryRules, instance));
+      }
+      markGenerated({ ...rule, generatedThrough });
+    }
+  }, [loaded, isLoading, rules, transactions, categoryRules, addTransaction, markGenerated]);
+
+  const updateRule = (rule: RecurringRule) => {
+    const previous = rules.find((r) => r.id === rule.id);
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? rule : r)));
+    return persist(put(STORES.recurringRules, rule), "Couldn't update the recurring transaction", () =>
+      setRules((prev) => prev.map((r) => (r.id === rule.id && previous ? previous : r))),
+    );
+  };
+
+  const addRule = (input: RecurringRuleInput) => {
+    const rule = { ...input, id: genId() };
+    setRules((prev) => [...prev, rule]);
+    persist(put(STORES.recurringRules, rule), "Couldn't add the recurring transaction", () =>
+      setRules((prev) => prev.filter((r) => r.id !== rule.id)),
+    );
+    return rule;
+  };
+
+  const deleteRule = (id: string) => {
+    const previous = rules.find((r) => r.id === id);
+    setRules((prev) => prev.filter((r) => r.id !== id));
+    persist(remove(STORES.recurringRules, id), "Couldn't delete the recurring transaction", () =>
+      setRules((prev) => (previous ? [...prev, previous] : prev)),
+    );
+  };
+
+  return (
+    <RecurringContext.Provider value={{ rules, addRule, updateRule, deleteRule }}>
+      {children}
+    </RecurringContext.Provider>
+  );
+};
+
+export const useRecurring = () => {
+  const context = useContext(RecurringContext);
+  if (!context) throw new Error("useRecurring must be used within RecurringProvider");
+  return context;
+};
@@ -1,17 +1,195 @@
-import { createContext, useContext, ReactNode } from "react";
-import { mockTransactions, Transaction } from "@/data/mockData";
+import { createContext, useCallback, useContext, useEffect, useReducer, ReactNode } from "react";
+import { Transaction } from "@/data/mockData";
+import { useReplayOutbox, useTransactionsQuery } from "@/hooks/use-transactions-query";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import {
+  applyRemoteTransactions,
+  deleteLocalTransaction,
+  getLocalTransactions,
+  getOutbox,
+  saveLocalTransaction,
+} from "@/lib/sync";
+import { loadFailed, storageFailed } from "@/lib/storageErrors";
+
+// Fields the caller provides - the store generates the id
+export type TransactionInput = Omit<Transaction, "id" | "remoteId" | "syncStatus">;
+
+type Action =
+  | { type: "HYDRATE"; transactions: Transaction[] }
+  | { type: "UPSERT"; transactions: Transaction[] }
+  | { type: "DELETE"; id: string }
+  | { type: "SET_PENDING"; count: number };
+
+type State = {
+  transactions: Transaction[];
+  hydrated: boolean;
+  pendingCount: number;
+};
+
+const byDateDesc = (a: Transaction, b: Transaction) => b.date.localeCompare(a.date);
+
+const transactionReducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "HYDRATE":
+      return {
+        ...state,
+        transactions: [...action.transactions].sort(byDateDesc),
+        hydrated: true,
+      };
+
+    case "UPSERT": {
+      const incoming = new Map(action.transactions.map((t) => [t.id, t]));
+      const kept = state.transactions.filter((t) => !incoming.has(t.id));
+      return {
+        ...state,
+        transactions: [...kept, ...incoming.values()].sort(byDateDesc),
+      };
+    }
+
+    case "DELETE":
+      return {
+        ...state,
+        transactions: state.transactions.filter((t) => t.id !== action.id),
+      };
+
+    case "SET_PENDING":
+      return { ...state, pendingCount: action.count };
+  }
+};
+
+const genId = () => crypto.randomUUID();
 
-// Simplified context type - no complex state management
 type TransactionContextType = {
   transactions: Transaction[];
+  isLoading: boolean;
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  addTransaction: (input: TransactionInput) => Transaction;
+  // Resolves to whether the change was stored
+  updateTransaction: (transaction: Transaction) => Promise<boolean>;
+  deleteTransaction: (id: string) => void;
+  syncNow: () => void;
 };
 
 const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
 
-// Simple provider that just supplies static mock data
+// Offline-first provider. IndexedDB holds the source of truth: every change is
+// written there first together with an outbox entry, then replayed to
+// /api/transactions whenever the server is reachable.
 export const TransactionProvider = ({ children }: { children: ReactNode }) => {
+  const [state, dispatch] = useReducer(transactionReducer, {
+    transactions: [],
+    hydrated: false,
+    pendingCount: 0,
+  });
+  const isOnline = useOnlineStatus();
+
+  const refreshPending = useCallback(async () => {
+    dispatch({ type: "SET_PENDING", count: (await getOutbox()).length });
+  }, []);
+
+  const replay = useReplayOutbox((result) => {
+    if (result.changed.length > 0) dispatch({ type: "UPSERT", transactions: result.changed });
+    result.removed.forEach((id) => dispatch({ type: "DELETE", id }));
+    refreshPending();
+  });
+  const { mutate: replayMutate } = replay;
+  const syncNow = useCallback(() => replayMutate(), [replayMutate]);
+
+  // Load the local copy before anything talks to the server. If it can't be
+  // read the app still starts, empty, so the page doesn't hang on "Loading".
+  useEffect(() => {
+    Promise.all([getLocalTransactions(), refreshPending()])
+      .then(([transactions]) => dispatch({ type: "HYDRATE", transactions }))
+      .catch(() => {
+        dispatch({ type: "HYDRATE", transactions: [] });
+        loadFailed("saved transactions");
+      });
+  }, [refreshPending]);
+
+  // Fold every fresh server list into the local store
+  const { data: remote } = useTransactionsQuery(state.hydrated);
+  useEffect(() => {
+    if (!remote) return;
+    applyRemoteTransactions(remote)
+      .then((transactions) => dispatch({ type: "HYDRATE", transactions }))
+      .catch(() => storageFailed("Couldn't store the server's transactions"));
+  }, [remote]);
+
+  // Flush the outbox on start-up and every time the connection comes back
+  useEffect(() => {
+    if (state.hydrated && isOnline) syncNow();
+  }, [state.hydrated, isOnline, syncNow]);
+
+  const afterLocalWrite = useCallback(() => {
+    // The pending count is only a hint; a failed read leaves the old one showing
+    refreshPending().catch(() => undefined);
+    if (navigator.onLine) syncNow();
+  }, [refreshPending, syncNow]);
+
+  // Optimistic changes are undone when the local write fails. Stable across
+  // renders so effects that add transactions, like the recurring generator,
+  // can list it as a dependency.
+  const addTransaction = useCallback(
+    (input: TransactionInput) => {
+      const transaction: Transaction = { ...input, id: genId(), syncStatus: "pending" };
+      dispatch({ type: "UPSERT", transactions: [transaction] });
+      saveLocalTransaction(transaction, "create")
+        .then((record) => {
+          dispatch({ type: "UPSERT", transactions: [record] });
+          afterLocalWrite();
+        })
+        .catch(() => {
+          dispatch({ type: "DELETE", id: transaction.id });
+          storageFailed("Couldn't add the transaction");
+        });
+      return transaction;
+    },
+    [afterLocalWrite],
+  );
+
+  const updateTransaction = (transaction: Transaction) => {
+    const previous = state.transactions.find((t) => t.id === transaction.id);
+    dispatch({ type: "UPSERT", transactions: [{ ...transaction, syncStatus: "pending" }] });
+    return saveLocalTransaction(transaction, "update")
+      .then((record) => {
+        dispatch({ type: "UPSERT", transactions: [record] });
+        afterLocalWrite();
+        return true;
+      })
+      .catch(() => {
+        if (previous) dispatch({ type: "UPSERT", transactions: [previous] });
+        storageFailed("Couldn't update the transaction");
+        return false;
+      });
+  };
+
+  const deleteTransaction = (id: string) => {
+    const previous = state.transactions.find((t) => t.id === id);
+    dispatch({ type: "DELETE", id });
+    deleteLocalTransaction(id)
+      .then(afterLocalWrite)
+      .catch(() => {
+        if (previous) dispatch({ type: "UPSERT", transactions: [previous] });
+        storageFailed("Couldn't delete the transaction");
+      });
+  };
+
   return (
-    <TransactionContext.Provider value={{ transactions: mockTransactions }}>
+    <TransactionContext.Provider
+      value={{
+        transactions: state.transactions,
+        isLoading: !state.hydrated,
+        isOnline,
+        isSyncing: replay.isPending,
+        pendingCount: state.pendingCount,
+        addTransaction,
+        updateTransaction,
+        deleteTransaction,
+        syncNow,
+      }}
+    >
       {children}
     </TransactionContext.Provider>
   );
@@ -0,0 +1,18 @@
+import { useMemo } from "react";
+import { useAccounts } from "@/context/AccountContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { useExchangeRates } from "@/context/ExchangeRateContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { computeAccountBalances } from "@/lib/accounts";
+
+export function useAccountBalances() {
+  const { accounts } = useAccounts();
+  const { transactions } = useTransactions();
+  const { rates } = useExchangeRates();
+  const { baseCurrency } = usePreferences();
+
+  return useMemo(
+    () => computeAccountBalances(accounts, transactions, rates, baseCurrency),
+    [accounts, transactions, rates, baseCurrency],
+  );
+}
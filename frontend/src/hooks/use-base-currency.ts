@@ -0,0 +1,13 @@
+import { useMemo } from "react";
+import { usePreferences } from "@/context/PreferencesContext";
+import { useExchangeRates } from "@/context/ExchangeRateContext";
+import { createConverter } from "@/lib/exchangeRates";
+
+// Converter from any transaction currency into the user's chosen base currency.
+// Stable across renders until the base currency or the rate table changes, so
+// its per-array cache keeps the analytics selectors memoized too.
+export function useBaseCurrency() {
+  const { baseCurrency } = usePreferences();
+  const { rates } = useExchangeRates();
+  return useMemo(() => createConverter(rates, baseCurrency), [rates, baseCurrency]);
+}
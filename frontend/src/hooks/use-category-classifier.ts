@@ -0,0 +1,9 @@
+import { useMemo } from "react";
+import { useTransactions } from "@/context/TransactionContext";
+import { trainClassifier } from "@/lib/classifier";
+
+// Retrained whenever transactions change, which is how it learns from corrections
+export function useCategoryClassifier() {
+  const { transactions } = useTransactions();
+  return useMemo(() => trainClassifier(transactions), [transactions]);
+}
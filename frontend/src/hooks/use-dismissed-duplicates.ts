@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { STORES, getAll, put } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+type DismissedPair = { id: string };
+
+// Pairs the user marked as not duplicates, by pair id, so a scan doesn't flag
+// them again. Only the review page reads them.
+export function useDismissedDuplicates() {
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    getAll<DismissedPair>(STORES.dismissedDuplicates)
+      .then((pairs) => setDismissed(new Set(pairs.map((p) => p.id))))
+      .catch(() => loadFailed("dismissed duplicates"));
+  }, []);
+
+  const dismiss = (id: string) => {
+    if (dismissed.has(id)) return;
+    setDismissed((prev) => new Set(prev).add(id));
+    persist(put(STORES.dismissedDuplicates, { id }), "Couldn't dismiss the duplicate", () =>
+      setDismissed((prev) => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      }),
+    );
+  };
+
+  return { dismissed, dismiss };
+}
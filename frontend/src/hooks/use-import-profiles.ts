@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { ImportProfile, ImportProfileInput } from "@/lib/csvImport";
+import { STORES, getAll, put, remove } from "@/lib/db";
+import { loadFailed, persist } from "@/lib/storageErrors";
+
+const genId = () => crypto.randomUUID();
+
+// Saved CSV mappings, one per bank. Only the import wizard reads them, so they
+// are loaded when it mounts rather than kept in a provider.
+export function useImportProfiles() {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+
+  useEffect(() => {
+    getAll<ImportProfile>(STORES.importProfiles)
+      .then(setProfiles)
+      .catch(() => loadFailed("import profiles"));
+  }, []);
+
+  // Saving under an existing name replaces that profile
+  const saveProfile = (input: ImportProfileInput) => {
+    const existing = profiles.find((p) => p.name.toLowerCase() === input.name.toLowerCase());
+    const profile = { ...input, id: existing?.id ?? genId() };
+    setProfiles((prev) => [...prev.filter((p) => p.id !== profile.id), profile]);
+    persist(put(STORES.importProfiles, profile), "Couldn't save the import profile", () =>
+      setProfiles((prev) => [...prev.filter((p) => p.id !== profile.id), ...(existing ? [existing] : [])]),
+    );
+    return profile;
+  };
+
+  const deleteProfile = (id: string) => {
+    const previous = profiles.find((p) => p.id === id);
+    setProfiles((prev) => prev.filter((p) => p.id !== id));
+    persist(remove(STORES.importProfiles, id), "Couldn't delete the import profile", () =>
+      setProfiles((prev) => (previous ? [...prev, previous] : prev)),
+    );
+  };
+
+  return { profiles, saveProfile, deleteProfile };
+}
@@ -0,0 +1,59 @@
+import { useCategories } from "@/context/CategoryContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { useRecurring } from "@/context/RecurringContext";
+import { useBudgets } from "@/context/BudgetContext";
+import { useCategoryRules } from "@/context/CategoryRuleContext";
+import { reassignCategory } from "@/lib/categories";
+
+// Folds one category into another: transactions, split lines, recurring rules
+// and auto-categorization rules move to the target, the source's budget moves
+// too unless the target already has one, subcategories are re-parented, and
+// the source is removed - but only once every other change is stored, so a
+// failed write never leaves records pointing at a deleted category.
+// Resolves to how many transactions changed, or null when the merge didn't finish.
+export function useMergeCategory() {
+  const { categories, getCategory, updateCategory, deleteCategory } = useCategories();
+  const { transactions, updateTransaction } = useTransactions();
+  const { rules, updateRule } = useRecurring();
+  const { budgets, updateBudget, deleteBudget } = useBudgets();
+  const { categoryRules, updateCategoryRule } = useCategoryRules();
+
+  return async (fromId: string, toId: string) => {
+    const writes: Promise<boolean>[] = [];
+    let moved = 0;
+    for (const t of transactions) {
+      const updated = reassignCategory(t, fromId, toId);
+      if (!updated) continue;
+      writes.push(updateTransaction(updated));
+      moved++;
+    }
+
+    for (const rule of rules) {
+      const template = reassignCategory(rule.template, fromId, toId);
+      if (template) writes.push(updateRule({ ...rule, template }));
+    }
+
+    for (const rule of categoryRules) {
+      if (rule.category === fromId) writes.push(updateCategoryRule({ ...rule, category: toId }));
+    }
+
+    const budget = budgets.find((b) => b.category === fromId);
+    if (budget) {
+      if (budgets.some((b) => b.category === toId)) writes.push(deleteBudget(budget.id));
+      else writes.push(updateBudget({ ...budget, category: toId }));
+    }
+
+    // The source's subcategories join the target's group. A target that was
+    // itself one of them becomes top-level and takes its siblings.
+    const target = getCategory(toId);
+    const newParent = target.parentId && target.parentId !== fromId ? target.parentId : toId;
+    for (const child of categories) {
+      if (child.parentId !== fromId) continue;
+      writes.push(updateCategory({ ...child, parentId: child.id === toId ? undefined : newParent }));
+    }
+
+    if (!(await Promise.all(writes)).every(Boolean)) return null;
+    deleteCategory(fromId);
+    return moved;
+  };
+}
@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchRemoteTransactions, replayOutbox, ReplayResult } from "@/lib/sync";
+import { toast } from "@/hooks/use-toast";
+
+export const transactionKeys = {
+  all: ["transactions"] as const,
+};
+
+export function useTransactionsQuery(enabled = true) {
+  return useQuery({
+    queryKey: transactionKeys.all,
+    queryFn: fetchRemoteTransactions,
+    enabled,
+  });
+}
+
+// Pushes the outbox to the server. Runs regardless of React Query's own
+// online detection - a failed request just leaves the entries queued.
+// Once the queue drains, the server list is refetched so other devices'
+// changes come in too.
+export function useReplayOutbox(onReplayed: (result: ReplayResult) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: replayOutbox,
+    networkMode: "always",
+    onSuccess: (result) => {
+      onReplayed(result);
+      if (result.rejected > 0) {
+        toast({
+          title: "Some changes were rejected",
+          description: `${result.rejected} change(s) could not be saved to the server.`,
+          variant: "destructive",
+        });
+      }
+      if (!result.interrupted) {
+        queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+      }
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import { Transaction } from "@/data/mockData";
+import { add, CurrencyCode, Money, negate } from "@/lib/money";
+import { createConverter, ExchangeRate } from "@/lib/exchangeRates";
+
+export type AccountType = "checking" | "savings" | "credit" | "cash" | "investment";
+
+export type Account = {
+  id: string;
+  name: string;
+  type: AccountType;
+  // Balance before the first recorded transaction; its currency is the account's currency
+  openingBalance: Money;
+};
+
+export type AccountInput = Omit<Account, "id">;
+
+// Every install has this account; transactions recorded before accounts
+// existed were moved into it by the v4 database migration
+export const DEFAULT_ACCOUNT_ID = "default";
+
+export const ACCOUNT_TYPES: { value: AccountType; label: string }[] = [
+  { value: "checking", label: "Checking" },
+  { value: "savings", label: "Savings" },
+  { value: "credit", label: "Credit Card" },
+  { value: "cash", label: "Cash" },
+  { value: "investment", label: "Investment" },
+];
+
+export const accountTypeLabel = (type: AccountType) =>
+  ACCOUNT_TYPES.find((t) => t.value === type)?.label ?? type;
+
+export type AccountBalance = {
+  // In the account's own currency
+  balance: Money;
+  // The same balance in the base currency, or null when a rate is missing
+  balanceInBase: Money | null;
+  transactionCount: number;
+  // Transactions in another currency that couldn't be converted into the account's
+  missingRates: number;
+};
+
+// Signed effect of a transaction on one account. A transfer takes money out of
+// its source account and puts it into its destination account.
+const signedAmount = (t: Transaction, accountId: string): Money => {
+  if (t.type === "transfer") return t.toAccountId === accountId ? t.amount : negate(t.amount);
+  return t.type === "income" ? t.amount : negate(t.amount);
+};
+
+export function computeAccountBalances(
+  accounts: Account[],
+  transactions: Transaction[],
+  rates: ExchangeRate[],
+  base: CurrencyCode,
+): Map<string, AccountBalance> {
+  const toBase = createConverter(rates, base);
+  const byAccount = new Map<string, Transaction[]>();
+  const file = (accountId: string, t: Transaction) =>
+    byAccount.set(accountId, [...(byAccount.get(accountId) ?? []), t]);
+  for (const t of transactions) {
+    file(t.accountId, t);
+    if (t.type === "transfer" && t.toAccountId && t.toAccountId !== t.accountId) file(t.toAccountId, t);
+  }
+
+  const balances = new Map<string, AccountBalance>();
+  for (const account of accounts) {
+    const currency: CurrencyCode = account.openingBalance.currency;
+    const toAccount = createConverter(rates, currency);
+    const own = byAccount.get(account.id) ?? [];
+
+    let balance = account.openingBalance;
+    let missingRates = 0;
+    for (const t of own) {
+      const amount = toAccount.convert(signedAmount(t, account.id), t.date);
+      if (amount) balance = add(balance, amount);
+      else missingRates++;
+    }
+
+    const today = new Date().toISOString().split("T")[0];
+    balances.set(account.id, {
+      balance,
+      balanceInBase: toBase.convert(balance, today),
+      transactionCount: own.length,
+      missingRates,
+    });
+  }
+  return balances;
+}
@@ -0,0 +1,161 @@
+import { format, parseISO } from "date-fns";
+import { CategoryStats, MonthlyData, Transaction } from "@/data/mockData";
+import { add, CurrencyCode, DEFAULT_CURRENCY, divide, Money, ratio, subtract, zero } from "@/lib/money";
+import { categoryLines } from "@/lib/splits";
+
+// Pure selectors that derive every figure shown in the app from Transaction[].
+// All amounts must already be in `currency` (see Converter in exchangeRates.ts).
+// Each one caches its result per input array and currency, so pages can call
+// them on every render and get the same object back until the transactions change.
+// Transfers between accounts are skipped: they are neither income nor spending.
+
+export type Totals = {
+  income: Money;
+  expenses: Money;
+  balance: Money;
+  count: number;
+};
+
+export type Summary = {
+  totalIncome: Money;
+  totalExpenses: Money;
+  currentBalance: Money;
+  transactionCount: number;
+  avgIncomePerMonth: Money;
+  avgExpensesPerMonth: Money;
+  savingsRate: number;
+  incomeSources: number;
+};
+
+export type TagStats = {
+  tag: string;
+  amount: Money;
+  count: number;
+  // Share of all expenses; tags overlap, so these don't add up to 100
+  percentage: number;
+};
+
+function memoizeByRef<A extends object, R>(
+  fn: (arg: A, currency: CurrencyCode) => R,
+): (arg: A, currency?: CurrencyCode) => R {
+  const cache = new WeakMap<A, Map<CurrencyCode, R>>();
+  return (arg, currency = DEFAULT_CURRENCY) => {
+    let byCurrency = cache.get(arg);
+    if (!byCurrency) cache.set(arg, (byCurrency = new Map()));
+    if (!byCurrency.has(currency)) byCurrency.set(currency, fn(arg, currency));
+    return byCurrency.get(currency) as R;
+  };
+}
+
+export const selectTotals = memoizeByRef((transactions: Transaction[], currency): Totals => {
+  let income = zero(currency);
+  let expenses = zero(currency);
+  let count = 0;
+  for (const t of transactions) {
+    if (t.type === "transfer") continue;
+    if (t.type === "income") income = add(income, t.amount);
+    else expenses = add(expenses, t.amount);
+    count++;
+  }
+  return { income, expenses, balance: subtract(income, expenses), count };
+});
+
+const categoryStatsFor = (type: "income" | "expense") =>
+  memoizeByRef((transactions: Transaction[], currency): CategoryStats[] => {
+    const byCategory = new Map<string, Money>();
+    let total = zero(currency);
+    for (const t of transactions) {
+      if (t.type !== type) continue;
+      // Split transactions count each line under its own category
+      for (const line of categoryLines(t)) {
+        byCategory.set(line.category, add(byCategory.get(line.category) ?? zero(currency), line.amount));
+        total = add(total, line.amount);
+      }
+    }
+
+    return Array.from(byCategory, ([category, amount]) => ({
+      category,
+      amount,
+      percentage: ratio(amount, total),
+    })).sort((a, b) => b.amount.amount - a.amount.amount);
+  });
+
+export const selectExpenseCategoryStats = categoryStatsFor("expense");
+export const selectIncomeCategoryStats = categoryStatsFor("income");
+
+// Spending per tag, largest first. A transaction counts in full under each of its tags.
+export const selectExpenseTagStats = memoizeByRef((transactions: Transaction[], currency): TagStats[] => {
+  const byTag = new Map<string, { amount: Money; count: number }>();
+  for (const t of transactions) {
+    if (t.type !== "expense") continue;
+    for (const tag of t.tags ?? []) {
+      const entry = byTag.get(tag) ?? { amount: zero(currency), count: 0 };
+      byTag.set(tag, { amount: add(entry.amount, t.amount), count: entry.count + 1 });
+    }
+  }
+
+  const { expenses } = selectTotals(transactions, currency);
+  return Array.from(byTag, ([tag, { amount, count }]) => ({
+    tag,
+    amount,
+    count,
+    percentage: ratio(amount, expenses),
+  })).sort((a, b) => b.amount.amount - a.amount.amount);
+});
+
+// One entry per calendar month that has activity, oldest first
+export const selectMonthlyData = memoizeByRef((transactions: Transaction[], currency): MonthlyData[] => {
+  const byMonth = new Map<string, { income: Money; expenses: Money }>();
+  for (const t of transactions) {
+    if (t.type === "transfer") continue;
+    const key = t.date.slice(0, 7);
+    const month = byMonth.get(key) ?? { income: zero(currency), expenses: zero(currency) };
+    if (t.type === "income") month.income = add(month.income, t.amount);
+    else month.expenses = add(month.expenses, t.amount);
+    byMonth.set(key, month);
+  }
+
+  return Array.from(byMonth)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, { income, expenses }]) => ({
+      month: format(parseISO(`${key}-01`), "MMM yyyy"),
+      income,
+      expenses,
+      balance: subtract(income, expenses),
+    }));
+});
+
+// Percentage change of income and expenses between the two latest months
+export const selectMonthOverMonth = memoizeByRef((transactions: Transaction[], currency) => {
+  const months = selectMonthlyData(transactions, currency);
+  if (months.length < 2) return null;
+
+  const [previous, current] = months.slice(-2);
+  const change = (from: Money, to: Money) =>
+    from.amount === 0 ? null : ratio(subtract(to, from), from);
+  return {
+    income: change(previous.income, current.income),
+    expenses: change(previous.expenses, current.expenses),
+  };
+});
+
+export const selectSavingsRate = memoizeByRef((transactions: Transaction[], currency) => {
+  const { income, balance } = selectTotals(transactions, currency);
+  return ratio(balance, income);
+});
+
+export const selectSummary = memoizeByRef((transactions: Transaction[], currency): Summary => {
+  const totals = selectTotals(transactions, currency);
+  const monthCount = selectMonthlyData(transactions, currency).length || 1;
+
+  return {
+    totalIncome: totals.income,
+    totalExpenses: totals.expenses,
+    currentBalance: totals.balance,
+    transactionCount: totals.count,
+    avgIncomePerMonth: divide(totals.income, monthCount),
+    avgExpensesPerMonth: divide(totals.expenses, monthCount),
+    savingsRate: selectSavingsRate(transactions, currency),
+    incomeSources: selectIncomeCategoryStats(transactions, currency).length,
+  };
+});
@@ -0,0 +1,56 @@
+// Receipts and documents attached to transactions. The file itself is kept as
+// a Blob in IndexedDB; uploading a copy to the backend is optional.
+
+export type Attachment = {
+  id: string;
+  transactionId: string;
+  name: string;
+  // MIME type, one of ACCEPTED_ATTACHMENT_TYPES
+  type: string;
+  size: number;
+  blob: Blob;
+  createdAt: string;
+  // Set once a copy has been uploaded
+  remoteId?: string;
+};
+
+// What the thumbnail and viewer need, for saved attachments and files not saved yet
+export type AttachmentFile = Pick<Attachment, "name" | "type" | "size" | "blob">;
+
+// Raster images only: an SVG can carry scripts, so it is never accepted or shown.
+// The backend's Attachment model allows the same list.
+export const IMAGE_ATTACHMENT_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/heic"];
+export const ACCEPTED_ATTACHMENT_TYPES = [...IMAGE_ATTACHMENT_TYPES, "application/pdf"].join(",");
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const isImage = (file: Pick<Attachment, "type">) => IMAGE_ATTACHMENT_TYPES.includes(file.type);
+export const isPdf = (file: Pick<Attachment, "type">) => file.type === "application/pdf";
+
+export const toAttachmentFile = (file: File): AttachmentFile => ({
+  name: file.name,
+  type: file.type,
+  size: file.size,
+  blob: file,
+});
+
+// Reason a picked file can't be attached, or null when it's fine
+export function attachmentError(file: File): string | null {
+  if (!isImage(file) && !isPdf(file)) return `${file.name} is not a PNG, JPEG, GIF, WebP or HEIC image or a PDF`;
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Base64 without the data-URL prefix, as the upload endpoint expects
+export const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
@@ -0,0 +1,82 @@
+import { format } from "date-fns";
+import { Transaction } from "@/data/mockData";
+import { createConverter, Converter, ExchangeRate } from "@/lib/exchangeRates";
+import { add, CurrencyCode, Money, subtract, zero } from "@/lib/money";
+import { categoryLines, withAmount } from "@/lib/splits";
+
+// Monthly spending limits per expense category. Spending is measured in the
+// limit's currency, converting other transactions with the local rate table.
+
+export type Budget = {
+  id: string;
+  category: string;
+  limit: Money;
+};
+
+export type BudgetInput = Omit<Budget, "id">;
+
+// "warning" from this share of the limit onwards
+export const BUDGET_WARNING_PERCENT = 80;
+
+export type BudgetState = "ok" | "warning" | "over";
+
+export type BudgetStatus = {
+  budget: Budget;
+  spent: Money;
+  // Negative once the limit is exceeded
+  remaining: Money;
+  percentUsed: number;
+  state: BudgetState;
+  // Expenses in the month that couldn't be converted into the limit's currency
+  missingRates: number;
+};
+
+export const monthKey = (date: Date = new Date()) => format(date, "yyyy-MM");
+
+// Status of every budget for `month` (yyyy-MM). Split transactions count each
+// line against its own category; transfers and income never count.
+export function computeBudgetStatuses(
+  budgets: Budget[],
+  transactions: Transaction[],
+  rates: ExchangeRate[],
+  month: string = monthKey(),
+): BudgetStatus[] {
+  const converters = new Map<CurrencyCode, Converter>();
+  const converterFor = (currency: CurrencyCode) => {
+    let converter = converters.get(currency);
+    if (!converter) converters.set(currency, (converter = createConverter(rates, currency)));
+    return converter;
+  };
+  const expenses = transactions.filter((t) => t.type === "expense" && t.date.startsWith(month));
+
+  return budgets.map((budget) => {
+    const { currency } = budget.limit;
+    const converter = converterFor(currency);
+    let spent = zero(currency);
+    let missingRates = 0;
+
+    for (const t of expenses) {
+      if (!categoryLines(t).some((line) => line.category === budget.category)) continue;
+      const amount = converter.toBase(t);
+      if (!amount) {
+        missingRates++;
+        continue;
+      }
+      for (const line of categoryLines(withAmount(t, amount))) {
+        if (line.category === budget.category) spent = add(spent, line.amount);
+      }
+    }
+
+    const percentUsed =
+      budget.limit.amount > 0 ? Math.round((spent.amount / budget.limit.amount) * 1000) / 10 : 0;
+    return {
+      budget,
+      spent,
+      remaining: subtract(budget.limit, spent),
+      percentUsed,
+      state:
+        spent.amount > budget.limit.amount ? "over" : percentUsed >= BUDGET_WARNING_PERCENT ? "warning" : "ok",
+      missingRates,
+    };
+  });
+}
@@ -0,0 +1,206 @@
+import {
+  Briefcase,
+  Car,
+  Coffee,
+  Film,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  Laptop,
+  LucideIcon,
+  PawPrint,
+  PiggyBank,
+  Plane,
+  Receipt,
+  ShoppingBag,
+  Smartphone,
+  Store,
+  Tag,
+  TrendingUp,
+  Utensils,
+  Wrench,
+  Zap,
+} from "lucide-react";
+import { CategoryStats, Transaction, TransactionType } from "@/data/mockData";
+import { ratio, sum } from "@/lib/money";
+
+// The category registry. Transactions, split lines, budgets and recurring rules
+// store a category id. The built-in categories use their original name as the
+// id, so records written before the registry existed still resolve.
+// Categories nest one level deep: a subcategory has a top-level parent and
+// shares its kind.
+
+export type CategoryKind = "income" | "expense" | "both";
+
+export type Category = {
+  id: string;
+  name: string;
+  kind: CategoryKind;
+  color: string;
+  icon: string;
+  // Set on subcategories
+  parentId?: string;
+  // Hidden from pickers but still shown on the transactions that use it
+  archived: boolean;
+};
+
+export type CategoryInput = Omit<Category, "id" | "archived">;
+
+export const CATEGORY_KINDS: { value: CategoryKind; label: string }[] = [
+  { value: "expense", label: "Expense" },
+  { value: "income", label: "Income" },
+  { value: "both", label: "Income & Expense" },
+];
+
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  tag: Tag,
+  briefcase: Briefcase,
+  laptop: Laptop,
+  "trending-up": TrendingUp,
+  store: Store,
+  gift: Gift,
+  home: Home,
+  utensils: Utensils,
+  car: Car,
+  film: Film,
+  zap: Zap,
+  "shopping-bag": ShoppingBag,
+  "heart-pulse": HeartPulse,
+  "graduation-cap": GraduationCap,
+  coffee: Coffee,
+  plane: Plane,
+  smartphone: Smartphone,
+  "paw-print": PawPrint,
+  wrench: Wrench,
+  receipt: Receipt,
+  "piggy-bank": PiggyBank,
+};
+
+export const CATEGORY_COLORS = [
+  "#8b5cf6",
+  "#3b82f6",
+  "#06b6d4",
+  "#10b981",
+  "#84cc16",
+  "#f59e0b",
+  "#ef4444",
+  "#ec4899",
+  "#94a3b8",
+];
+
+export const FALLBACK_COLOR = "#94a3b8";
+const FALLBACK_ICON = "tag";
+
+// Stand-in for ids missing from the registry, e.g. synced from another device
+// or the built-in Transfer and Split markers
+export const unknownCategory = (id: string): Category => ({
+  id,
+  name: id,
+  kind: "both",
+  color: FALLBACK_COLOR,
+  icon: FALLBACK_ICON,
+  archived: false,
+});
+
+export const categoryIcon = (category: Category): LucideIcon =>
+  CATEGORY_ICONS[category.icon] ?? CATEGORY_ICONS[FALLBACK_ICON];
+
+// Categories offered for a transaction type. Ids in `keep` stay in the list even
+// when archived, so editing an old record doesn't blank its category.
+export const categoriesFor = (
+  categories: Category[],
+  type: Exclude<TransactionType, "transfer">,
+  keep: string[] = [],
+) =>
+  categories.filter(
+    (c) => (c.kind === type || c.kind === "both") && (!c.archived || keep.includes(c.id)),
+  );
+
+export type CategoryNode = {
+  category: Category;
+  children: Category[];
+};
+
+// Groups a flat list into parents and their subcategories, keeping the list's
+// order. Subcategories whose parent isn't in the list are shown at the top level.
+export function categoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>();
+  for (const category of categories) {
+    if (!category.parentId) nodes.set(category.id, { category, children: [] });
+  }
+  for (const category of categories) {
+    if (!category.parentId) continue;
+    const parent = nodes.get(category.parentId);
+    if (parent) parent.children.push(category);
+    else nodes.set(category.id, { category, children: [] });
+  }
+  return Array.from(nodes.values());
+}
+
+// Top-level category an id rolls up to
+export const rootCategoryId = (id: string, getCategory: (id: string) => Category) =>
+  getCategory(id).parentId ?? id;
+
+// Moves every use of `fromId` on a transaction (or rule template) to `toId`.
+// Returns null when the record doesn't use `fromId`.
+export function reassignCategory<T extends Pick<Transaction, "category" | "splits">>(
+  record: T,
+  fromId: string,
+  toId: string,
+): T | null {
+  const inSplits = record.splits?.some((line) => line.category === fromId) ?? false;
+  if (record.category !== fromId && !inSplits) return null;
+  return {
+    ...record,
+    category: record.category === fromId ? toId : record.category,
+    splits: inSplits
+      ? record.splits?.map((line) => (line.category === fromId ? { ...line, category: toId } : line))
+      : record.splits,
+  };
+}
+
+export type Labeled<T extends CategoryStats> = T & { name: string; color: string };
+
+// Adds the registry's name and color to analytics output for charts and legends
+export const labelCategoryStats = <T extends CategoryStats>(
+  stats: T[],
+  getCategory: (id: string) => Category,
+): Labeled<T>[] =>
+  stats.map((entry) => {
+    const { name, color } = getCategory(entry.category);
+    return { ...entry, name, color };
+  });
+
+export type CategoryGroupStats = CategoryStats & {
+  // Subcategory totals, plus the parent's own when it has transactions of its
+  // own, so they always add up to the group. Empty for categories without children.
+  children: CategoryStats[];
+};
+
+// Folds subcategory totals into their parents. Percentages stay relative to the
+// grand total at both levels.
+export function rollUpCategoryStats(
+  stats: CategoryStats[],
+  getCategory: (id: string) => Category,
+): CategoryGroupStats[] {
+  if (stats.length === 0) return [];
+  const total = sum(stats.map((entry) => entry.amount), stats[0].amount.currency);
+
+  const groups = new Map<string, CategoryStats[]>();
+  for (const entry of stats) {
+    const root = rootCategoryId(entry.category, getCategory);
+    groups.set(root, [...(groups.get(root) ?? []), entry]);
+  }
+
+  return Array.from(groups, ([category, members]) => {
+    const amount = sum(members.map((entry) => entry.amount), total.currency);
+    const hasChildren = members.some((entry) => entry.category !== category);
+    return {
+      category,
+      amount,
+      percentage: ratio(amount, total),
+      children: hasChildren ? members : [],
+    };
+  }).sort((a, b) => b.amount.amount - a.amount.amount);
+}
@@ -0,0 +1,117 @@
+import { Transaction } from "@/data/mockData";
+import { toMajor } from "@/lib/money";
+import { isSplit } from "@/lib/splits";
+import { RuleSubject } from "@/lib/rules";
+
+// Naive Bayes over description words and a rough amount size, trained on the
+// transactions already categorized. Everything runs in the browser; the model
+// is rebuilt from the current history, so a corrected category counts the
+// next time a suggestion is made.
+
+type ClassifiedType = "income" | "expense";
+
+type CategoryCounts = {
+  // Transactions filed under the category
+  documents: number;
+  features: Map<string, number>;
+  // Sum of all feature counts
+  total: number;
+};
+
+type TypeModel = {
+  documents: number;
+  categories: Map<string, CategoryCounts>;
+  vocabulary: Set<string>;
+};
+
+export type CategoryClassifier = Record<ClassifiedType, TypeModel>;
+
+export type CategorySuggestion = {
+  category: string;
+  // Probability of the suggested category among those the model knows, 0–1
+  confidence: number;
+};
+
+// Below this the suggestion is more noise than help
+export const MIN_SUGGESTION_CONFIDENCE = 0.4;
+
+// Words shorter than this, and plain numbers like store or card numbers, carry no signal
+const MIN_TOKEN_LENGTH = 2;
+
+export const tokenize = (description: string): string[] =>
+  description
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= MIN_TOKEN_LENGTH && !/^\d+$/.test(token));
+
+// Amounts fall into doubling buckets per currency, so 4.50 and 5.20 look alike
+// but 5 and 500 don't
+const amountBucket = (amount: RuleSubject["amount"]) => {
+  const value = amount ? toMajor(amount) : 0;
+  return value > 0 ? `amount:${amount?.currency}:${Math.round(Math.log2(value))}` : null;
+};
+
+const features = (t: RuleSubject): string[] => {
+  const bucket = amountBucket(t.amount);
+  return bucket ? [...tokenize(t.description), bucket] : tokenize(t.description);
+};
+
+const emptyModel = (): TypeModel => ({ documents: 0, categories: new Map(), vocabulary: new Set() });
+
+// Transfers and split transactions don't have a single category to learn from
+export function trainClassifier(transactions: Transaction[]): CategoryClassifier {
+  const model: CategoryClassifier = { income: emptyModel(), expense: emptyModel() };
+  for (const t of transactions) {
+    if (t.type === "transfer" || isSplit(t)) continue;
+    const words = features(t);
+    if (words.length === 0) continue;
+
+    const typeModel = model[t.type];
+    let counts = typeModel.categories.get(t.category);
+    if (!counts) {
+      counts = { documents: 0, features: new Map(), total: 0 };
+      typeModel.categories.set(t.category, counts);
+    }
+    typeModel.documents++;
+    counts.documents++;
+    counts.total += words.length;
+    for (const word of words) {
+      counts.features.set(word, (counts.features.get(word) ?? 0) + 1);
+      typeModel.vocabulary.add(word);
+    }
+  }
+  return model;
+}
+
+// The most likely category for a transaction being entered, limited to
+// `allowed` when given (e.g. to skip archived categories). Null until the
+// description has a word the model has seen with this type.
+export function suggestCategory(
+  classifier: CategoryClassifier,
+  t: RuleSubject,
+  allowed?: string[],
+): CategorySuggestion | null {
+  if (t.type === "transfer") return null;
+  const model = classifier[t.type];
+  const known = features(t).filter((word) => model.vocabulary.has(word));
+  if (!known.some((word) => !word.startsWith("amount:"))) return null;
+
+  const candidates = [...model.categories].filter(([id]) => !allowed || allowed.includes(id));
+  if (candidates.length === 0) return null;
+
+  // Log scores with add-one smoothing, so an unseen word lowers a category
+  // instead of ruling it out
+  const vocabularySize = model.vocabulary.size;
+  const scores = candidates.map(([id, counts]) => {
+    let score = Math.log((counts.documents + 1) / (model.documents + model.categories.size));
+    for (const word of known) {
+      score += Math.log(((counts.features.get(word) ?? 0) + 1) / (counts.total + vocabularySize));
+    }
+    return { id, score };
+  });
+
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  // Normalized against the best score to keep the exponentials in range
+  const sum = scores.reduce((total, s) => total + Math.exp(s.score - best.score), 0);
+  return { category: best.id, confidence: 1 / sum };
+}
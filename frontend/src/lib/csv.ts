@@ -0,0 +1,80 @@
+// Minimal RFC 4180 reader and writer. Quoted cells may contain the delimiter, newlines
+// and doubled quotes; blank lines are dropped.
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+];
+
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  // Skip a byte-order mark left by spreadsheet exports
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"' && cell.trim() === "") {
+      cell = "";
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length > 0) endRow();
+  return rows.map((r) => r.map((c) => c.trim()));
+}
+
+// Picks the delimiter that splits the first lines into the same number of
+// columns most often, preferring more columns on a tie
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, 20).join("\n");
+  let best = ",";
+  let bestScore = 0;
+  for (const { value } of CSV_DELIMITERS) {
+    const widths = parseCsv(sample, value).map((r) => r.length);
+    if (widths.length === 0 || widths[0] < 2) continue;
+    const consistent = widths.filter((w) => w === widths[0]).length;
+    const score = consistent * 100 + widths[0];
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Spreadsheets evaluate a cell starting with one of these as a formula. Text
+// from bank files goes into exports as is, so such cells get a leading "'",
+// which Excel and its kin read as "this is text".
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export const escapeFormula = (cell: string) => (FORMULA_START.test(cell) ? `'${cell}` : cell);
+
+// Quotes cells that contain the delimiter, a quote or a line break
+const escapeCell = (cell: string, delimiter: string) =>
+  cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+export const toCsv = (rows: string[][], delimiter = ","): string =>
+  rows.map((row) => row.map((cell) => escapeCell(cell, delimiter)).join(delimiter)).join("\r\n") + "\r\n";
@@ -0,0 +1,283 @@
+import { Category } from "@/lib/categories";
+import { detectDelimiter, parseCsv } from "@/lib/csv";
+import { ImportRow, matchCategory } from "@/lib/imports";
+import { CurrencyCode, Money, parseMoney } from "@/lib/money";
+
+export type DateFormat = "ymd" | "mdy" | "dmy";
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: "ymd", label: "YYYY-MM-DD" },
+  { value: "mdy", label: "MM/DD/YYYY" },
+  { value: "dmy", label: "DD/MM/YYYY" },
+];
+
+export type DecimalSeparator = "." | ",";
+
+export const DECIMAL_SEPARATORS: { value: DecimalSeparator; label: string }[] = [
+  { value: ".", label: "Point (1,234.56)" },
+  { value: ",", label: "Comma (1.234,56)" },
+];
+
+// One column holding negative expenses and positive income, or separate
+// debit (money out) and credit (money in) columns
+export type AmountMode = "signed" | "split";
+
+export type CsvMapping = {
+  delimiter: string;
+  hasHeader: boolean;
+  dateFormat: DateFormat;
+  decimal: DecimalSeparator;
+  // Column indexes; null when the field isn't in the file
+  date: number | null;
+  description: number | null;
+  amountMode: AmountMode;
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  category: number | null;
+};
+
+// A saved mapping for one bank's export format
+export type ImportProfile = {
+  id: string;
+  name: string;
+  // Header row of the files it was made for, used to pick it automatically
+  headers: string[];
+  accountId: string;
+  mapping: CsvMapping;
+};
+
+export type ImportProfileInput = Omit<ImportProfile, "id">;
+
+export type CsvFile = {
+  rows: string[][];
+  // Column names from the header row, or "Column N" when there is none
+  headers: string[];
+};
+
+export function readCsvFile(text: string, mapping: Pick<CsvMapping, "delimiter" | "hasHeader">): CsvFile {
+  const rows = parseCsv(text, mapping.delimiter);
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  const generated = Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  if (!mapping.hasHeader) return { rows, headers: generated };
+  const [header = [], ...body] = rows;
+  return { rows: body, headers: generated.map((name, i) => header[i] || name) };
+}
+
+// Accepts 2024-03-15, 03/15/2024, 15.03.24 and the like; a trailing time is ignored
+export function parseDate(value: string, format: DateFormat): string | null {
+  const parts = value.trim().split(/[\sT]/)[0].split(/[-/.]/);
+  if (parts.length !== 3 || !parts.every((p) => /^\d{1,4}$/.test(p))) return null;
+
+  const [a, b, c] = parts.map(Number);
+  const [y, month, day] = format === "ymd" ? [a, b, c] : format === "mdy" ? [c, a, b] : [c, b, a];
+  const year = y < 100 ? y + 2000 : y;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// The reverse of parseDate, with four-digit years
+export function formatDate(iso: string, format: DateFormat): string {
+  const [year, month, day] = iso.split("-");
+  if (format === "ymd") return iso;
+  return format === "mdy" ? `${month}/${day}/${year}` : `${day}/${month}/${year}`;
+}
+
+// The first format every sample parses with; month-first wins when days are all 12 or less
+export function detectDateFormat(samples: string[]): DateFormat {
+  const values = samples.filter((v) => v.trim() !== "");
+  return (
+    (["ymd", "mdy", "dmy"] as const).find((format) => values.every((v) => parseDate(v, format) !== null)) ?? "ymd"
+  );
+}
+
+// Looks at which separator is followed by one or two digits at the end of the
+// number; "1.234" on its own could be either and doesn't count
+export function detectDecimalSeparator(samples: string[]): DecimalSeparator {
+  let comma = 0;
+  let point = 0;
+  for (const value of samples) {
+    if (/,\d{1,2}\)?-?$/.test(value.trim())) comma++;
+    else if (/\.\d{1,2}\)?-?$/.test(value.trim())) point++;
+  }
+  return comma > point ? "," : ".";
+}
+
+// Parses a bank-formatted number such as "-1,234.56", "1.234,56", "(12.00)",
+// "12.00-" or "$ 12". Returns null for blank or malformed text.
+export function parseAmount(value: string, decimal: DecimalSeparator, currency: CurrencyCode): Money | null {
+  let text = value.trim();
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+  const thousands = decimal === "," ? "." : ",";
+  const cleaned = text
+    .replace(/[^\d.,]/g, "")
+    .split(thousands)
+    .join("")
+    .replace(decimal, ".");
+  if (!/^\d*\.?\d*$/.test(cleaned) || !/\d/.test(cleaned)) return null;
+
+  const parsed = parseMoney(cleaned, currency);
+  return parsed && { amount: negative ? -parsed.amount : parsed.amount, currency };
+}
+
+type ColumnField = "date" | "description" | "amount" | "debit" | "credit" | "category";
+
+const HEADER_PATTERNS: [ColumnField, RegExp][] = [
+  ["date", /date|posted|booked|booking/i],
+  ["description", /desc|payee|memo|details|narrative|merchant|name|reference/i],
+  ["debit", /debit|withdraw|paid out|money out|outflow/i],
+  ["credit", /credit|deposit|paid in|money in|inflow/i],
+  ["amount", /amount|value|sum/i],
+  ["category", /category/i],
+];
+
+// Best guess at the whole mapping from the file alone: delimiter, header row,
+// columns by header name, then date and number formats from the mapped columns
+export function guessMapping(text: string): CsvMapping {
+  const delimiter = detectDelimiter(text);
+  const firstRow = parseCsv(text.split(/\r?\n/).slice(0, 1).join("\n"), delimiter)[0] ?? [];
+  const hasHeader = firstRow.length > 0 && firstRow.every((cell) => !/\d/.test(cell));
+  const { rows, headers } = readCsvFile(text, { delimiter, hasHeader });
+
+  const mapping: CsvMapping = {
+    delimiter,
+    hasHeader,
+    dateFormat: "ymd",
+    decimal: ".",
+    date: null,
+    description: null,
+    amountMode: "signed",
+    amount: null,
+    debit: null,
+    credit: null,
+    category: null,
+  };
+  if (hasHeader) {
+    const taken = new Set<number>();
+    for (const [field, pattern] of HEADER_PATTERNS) {
+      const index = headers.findIndex((h, i) => !taken.has(i) && pattern.test(h));
+      if (index === -1) continue;
+      mapping[field] = index;
+      taken.add(index);
+    }
+  }
+
+  const sample = rows.slice(0, 50);
+  const column = (index: number | null) => (index === null ? [] : sample.map((r) => r[index] ?? ""));
+  // Without a header, guess from the values: the date is the first column that
+  // parses as one, the amount the last all-numeric column, the description the first text column
+  if (mapping.date === null) {
+    const index = headers.findIndex((_, i) => column(i).some((v) => v && parseDate(v, detectDateFormat(column(i)))));
+    if (index !== -1) mapping.date = index;
+  }
+  const numeric = (i: number) => column(i).every((v) => /^[-+($]*[\d.,\s]+\)?-?$/.test(v));
+  const free = (i: number) => !HEADER_PATTERNS.some(([field]) => mapping[field] === i);
+  if (mapping.amount === null && mapping.debit === null && mapping.credit === null) {
+    for (let i = headers.length - 1; i >= 0 && mapping.amount === null; i--) {
+      if (free(i) && numeric(i)) mapping.amount = i;
+    }
+  }
+  if (mapping.description === null) {
+    const index = headers.findIndex((_, i) => free(i) && !numeric(i));
+    if (index !== -1) mapping.description = index;
+  }
+  if (mapping.debit !== null && mapping.credit !== null && mapping.amount === null) mapping.amountMode = "split";
+
+  mapping.dateFormat = detectDateFormat(column(mapping.date));
+  mapping.decimal = detectDecimalSeparator([
+    ...column(mapping.amount),
+    ...column(mapping.debit),
+    ...column(mapping.credit),
+  ]);
+  return mapping;
+}
+
+export const normalizeHeaders = (headers: string[]) => headers.map((h) => h.trim().toLowerCase());
+
+// A saved profile applies when its header row matches the file's exactly
+export const findProfile = (profiles: ImportProfile[], headers: string[]) => {
+  const wanted = normalizeHeaders(headers).join("\u0000");
+  return profiles.find((p) => p.headers.length > 0 && normalizeHeaders(p.headers).join("\u0000") === wanted);
+};
+
+// Reasons the mapping can't produce transactions at all
+export function mappingErrors(mapping: CsvMapping): string[] {
+  const errors: string[] = [];
+  if (mapping.date === null) errors.push("Choose the date column");
+  if (mapping.amountMode === "signed" && mapping.amount === null) errors.push("Choose the amount column");
+  if (mapping.amountMode === "split" && mapping.debit === null && mapping.credit === null) {
+    errors.push("Choose the debit or credit column");
+  }
+  return errors;
+}
+
+type MapContext = {
+  accountId: string;
+  currency: CurrencyCode;
+  categories: Category[];
+};
+
+// Turns each data row into a transaction, collecting what's wrong with the
+// rows that can't be. Duplicates are flagged separately (see flagDuplicates).
+export function mapCsvRows(file: CsvFile, mapping: CsvMapping, { accountId, currency, categories }: MapContext) {
+  const firstLine = mapping.hasHeader ? 2 : 1;
+
+  return file.rows.map((cells, i): ImportRow => {
+    const errors: string[] = [];
+    const cell = (index: number | null) => (index === null ? "" : (cells[index] ?? ""));
+
+    const date = parseDate(cell(mapping.date), mapping.dateFormat);
+    if (!date) errors.push(`Unreadable date "${cell(mapping.date)}"`);
+
+    let signed: Money | null = null;
+    if (mapping.amountMode === "signed") {
+      signed = parseAmount(cell(mapping.amount), mapping.decimal, currency);
+      if (!signed) errors.push(`Unreadable amount "${cell(mapping.amount)}"`);
+    } else {
+      const debitText = cell(mapping.debit);
+      const creditText = cell(mapping.credit);
+      const debit = parseAmount(debitText, mapping.decimal, currency);
+      const credit = parseAmount(creditText, mapping.decimal, currency);
+      if (debitText && !debit) errors.push(`Unreadable debit "${debitText}"`);
+      else if (creditText && !credit) errors.push(`Unreadable credit "${creditText}"`);
+      else if (!debit?.amount && !credit?.amount) errors.push("No debit or credit amount");
+      // Debits are money out whichever sign the bank writes them with
+      else signed = { amount: Math.abs(credit?.amount ?? 0) - Math.abs(debit?.amount ?? 0), currency };
+    }
+    if (signed && signed.amount === 0) errors.push("Amount is zero");
+
+    if (errors.length > 0 || !date || !signed) {
+      return { line: i + firstLine, input: null, errors, duplicate: false, imported: false };
+    }
+
+    const type = signed.amount < 0 ? "expense" : "income";
+    return {
+      line: i + firstLine,
+      input: {
+        type,
+        accountId,
+        amount: { amount: Math.abs(signed.amount), currency },
+        category: matchCategory(cell(mapping.category), type, categories),
+        date,
+        description: cell(mapping.description) || "Imported transaction",
+      },
+      errors,
+      duplicate: false,
+      imported: false,
+    };
+  });
+}
@@ -0,0 +1,213 @@
+// Thin promise wrapper around the browser's IndexedDB.
+// The schema is versioned: each entry in `migrations` upgrades the database by
+// one version, so existing installs replay only the steps they haven't seen.
+// Append new migrations at the end - never edit or reorder shipped ones.
+
+const DB_NAME = "centsible";
+
+export const STORES = {
+  transactions: "transactions",
+  outbox: "outbox",
+  exchangeRates: "exchangeRates",
+  accounts: "accounts",
+  recurringRules: "recurringRules",
+  budgets: "budgets",
+  goals: "goals",
+  goalContributions: "goalContributions",
+  categories: "categories",
+  attachments: "attachments",
+  importProfiles: "importProfiles",
+  categoryRules: "categoryRules",
+  dismissedDuplicates: "dismissedDuplicates",
+  payees: "payees",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const migrations: Migration[] = [
+  // v1: local transaction copies and the queue of changes waiting for the server
+  (db) => {
+    db.createObjectStore(STORES.transactions, { keyPath: "id" });
+    db.createObjectStore(STORES.outbox, { keyPath: "seq", autoIncrement: true });
+  },
+  // v2: amounts move from float dollars to integer minor units with a currency
+  (_db, tx) => {
+    tx.objectStore(STORES.transactions).openCursor().onsuccess = function () {
+      const cursor = this.result;
+      if (!cursor) return;
+      const record = cursor.value;
+      if (typeof record.amount === "number") {
+        cursor.update({ ...record, amount: { amount: Math.round(record.amount * 100), currency: "USD" } });
+      }
+      cursor.continue();
+    };
+  },
+  // v3: user-maintained exchange-rate table
+  (db) => {
+    db.createObjectStore(STORES.exchangeRates, { keyPath: "id" });
+  },
+  // v4: accounts. Seeds the default account and moves existing transactions into it.
+  // Values are spelled out rather than imported so this step never changes after shipping.
+  (db, tx) => {
+    db.createObjectStore(STORES.accounts, { keyPath: "id" }).put({
+      id: "default",
+      name: "Main Account",
+      type: "checking",
+      openingBalance: { amount: 0, currency: "USD" },
+    });
+    tx.objectStore(STORES.transactions).openCursor().onsuccess = function () {
+      const cursor = this.result;
+      if (!cursor) return;
+      if (!cursor.value.accountId) cursor.update({ ...cursor.value, accountId: "default" });
+      cursor.continue();
+    };
+  },
+  // v5: recurring transaction rules
+  (db) => {
+    db.createObjectStore(STORES.recurringRules, { keyPath: "id" });
+  },
+  // v6: monthly category budgets
+  (db) => {
+    db.createObjectStore(STORES.budgets, { keyPath: "id" });
+  },
+  // v7: savings goals and the contributions towards them
+  (db) => {
+    db.createObjectStore(STORES.goals, { keyPath: "id" });
+    db.createObjectStore(STORES.goalContributions, { keyPath: "id" });
+  },
+  // v8: user-managed categories, seeded with the ones that used to be hard-coded.
+  // Their ids are the old names, which existing transactions already reference.
+  (db) => {
+    const store = db.createObjectStore(STORES.categories, { keyPath: "id" });
+    const seed = [
+      ["Salary", "income", "#10b981", "briefcase"],
+      ["Freelance", "income", "#3b82f6", "laptop"],
+      ["Investment", "income", "#8b5cf6", "trending-up"],
+      ["Business", "income", "#f59e0b", "store"],
+      ["Gift", "income", "#ec4899", "gift"],
+      ["Rent", "expense", "#8b5cf6", "home"],
+      ["Food", "expense", "#3b82f6", "utensils"],
+      ["Transport", "expense", "#ef4444", "car"],
+      ["Entertainment", "expense", "#10b981", "film"],
+      ["Utilities", "expense", "#f59e0b", "zap"],
+      ["Shopping", "expense", "#ec4899", "shopping-bag"],
+      ["Health", "expense", "#06b6d4", "heart-pulse"],
+      ["Education", "expense", "#84cc16", "graduation-cap"],
+      ["Other", "both", "#94a3b8", "tag"],
+    ];
+    for (const [name, kind, color, icon] of seed) {
+      store.put({ id: name, name, kind, color, icon, archived: false });
+    }
+  },
+  // v9: receipts and documents attached to transactions, looked up by transaction
+  (db) => {
+    db.createObjectStore(STORES.attachments, { keyPath: "id" }).createIndex("transactionId", "transactionId");
+  },
+  // v10: saved column mappings for bank CSV imports
+  (db) => {
+    db.createObjectStore(STORES.importProfiles, { keyPath: "id" });
+  },
+  // v11: auto-categorization rules
+  (db) => {
+    db.createObjectStore(STORES.categoryRules, { keyPath: "id" });
+  },
+  // v12: transaction pairs the user said aren't duplicates
+  (db) => {
+    db.createObjectStore(STORES.dismissedDuplicates, { keyPath: "id" });
+  },
+  // v13: payees (merchants) and their description aliases
+  (db) => {
+    db.createObjectStore(STORES.payees, { keyPath: "id" });
+  },
+  // v14: look up local transactions by their server id
+  (_db, tx) => {
+    tx.objectStore(STORES.transactions).createIndex("remoteId", "remoteId");
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction as IDBTransaction;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          migrations[version](request.result, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `fn` inside a single IndexedDB transaction spanning `stores` and
+// resolves once it commits, so multi-store writes land together or not at all
+export async function transact<T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T,
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+}
+
+const withStore = <T,>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (objectStore: IDBObjectStore) => Promise<T> | T,
+) => transact([store], mode, (tx) => fn(tx.objectStore(store)));
+
+export const getAll = <T,>(store: StoreName) =>
+  withStore(store, "readonly", (s) => promisify(s.getAll() as IDBRequest<T[]>));
+
+export const getOne = <T,>(store: StoreName, key: IDBValidKey) =>
+  withStore(store, "readonly", (s) => promisify(s.get(key) as IDBRequest<T | undefined>));
+
+export const put = <T,>(store: StoreName, value: T) =>
+  withStore(store, "readwrite", (s) => promisify(s.put(value)));
+
+export const remove = (store: StoreName, key: IDBValidKey) =>
+  withStore(store, "readwrite", (s) => promisify(s.delete(key)));
+
+// Swaps the whole store contents in one transaction
+export const replaceAll = <T,>(store: StoreName, values: T[]) =>
+  withStore(store, "readwrite", (s) => {
+    s.clear();
+    values.forEach((value) => s.put(value));
+  });
+
+// Read-modify-write of a single record, atomic with respect to other writers.
+// Returning undefined from `fn` leaves the store untouched.
+export const update = <T,>(store: StoreName, key: IDBValidKey, fn: (current: T | undefined) => T | undefined) =>
+  withStore(store, "readwrite", async (s) => {
+    const current = (await promisify(s.get(key))) as T | undefined;
+    const next = fn(current);
+    if (next !== undefined) s.put(next);
+    return next;
+  });
@@ -0,0 +1,126 @@
+import { Transaction } from "@/data/mockData";
+import { tokenize } from "@/lib/classifier";
+
+// A likely duplicate has the same type and amount, a date within a few days
+// and a similar description. Bank files often book a purchase a day or two
+// after it was entered by hand, and word it differently.
+
+export const DUPLICATE_WINDOWS = [1, 3, 7, 14];
+export const DEFAULT_DUPLICATE_WINDOW_DAYS = 3;
+
+// Share of letter pairs two descriptions must have in common
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DuplicateCandidate = Pick<
+  Transaction,
+  "type" | "amount" | "date" | "description" | "accountId" | "toAccountId" | "importId"
+> & { id?: string };
+
+export type DuplicatePair = {
+  // Stable for the two transactions in either order, for dismissing
+  id: string;
+  // The older of the two comes first
+  first: Transaction;
+  second: Transaction;
+};
+
+export const pairId = (a: string, b: string) => [a, b].sort().join("|");
+
+export const daysApart = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+
+const letterPairs = (text: string) => {
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  return pairs;
+};
+
+// 0–1. Numbers and punctuation are ignored, so "STARBUCKS #1234" and
+// "Starbucks" match, and a short typed description whose words all appear in
+// the bank's longer one counts as the same.
+export function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return wordsA.length === wordsB.length ? 1 : 0;
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  if (shorter.every((word) => longer.includes(word))) return 1;
+
+  // Dice coefficient over letter pairs
+  const pairsA = letterPairs(wordsA.join(" "));
+  const pairsB = letterPairs(wordsB.join(" "));
+  let shared = 0;
+  let total = 0;
+  pairsA.forEach((count, pair) => {
+    shared += Math.min(count, pairsB.get(pair) ?? 0);
+    total += count;
+  });
+  pairsB.forEach((count) => (total += count));
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+export const amountKey = (t: Pick<Transaction, "type" | "amount">) =>
+  `${t.type}|${t.amount.amount}|${t.amount.currency}`;
+
+// Two transactions that both carry bank ids are never duplicates: the bank
+// says they differ. Transfers must also move money between the same accounts.
+export function isLikelyDuplicate(a: DuplicateCandidate, b: DuplicateCandidate, windowDays: number): boolean {
+  if (amountKey(a) !== amountKey(b) || (a.importId && b.importId)) return false;
+  if (a.type === "transfer" && (a.accountId !== b.accountId || a.toAccountId !== b.toAccountId)) return false;
+  return (
+    daysApart(a.date, b.date) <= windowDays &&
+    descriptionSimilarity(a.description, b.description) >= MIN_DESCRIPTION_SIMILARITY
+  );
+}
+
+// Recorded transactions a new one looks like, for a warning before it's saved
+export const findDuplicates = (candidate: DuplicateCandidate, transactions: Transaction[], windowDays: number) =>
+  transactions.filter((t) => t.id !== candidate.id && isLikelyDuplicate(candidate, t, windowDays));
+
+// Groups transactions by type and amount so only plausible pairs are compared
+export function groupByAmount<T extends Pick<Transaction, "type" | "amount">>(transactions: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const t of transactions) {
+    const group = groups.get(amountKey(t));
+    if (group) group.push(t);
+    else groups.set(amountKey(t), [t]);
+  }
+  return groups;
+}
+
+// Every likely duplicate pair in the history except dismissed ones, newest first
+export function findDuplicatePairs(
+  transactions: Transaction[],
+  windowDays: number,
+  dismissed: Set<string>,
+): DuplicatePair[] {
+  const pairs: DuplicatePair[] = [];
+  groupByAmount(transactions).forEach((group) => {
+    const sorted = [...group].sort((a, b) => a.date.localeCompare(b.date));
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length && daysApart(sorted[i].date, sorted[j].date) <= windowDays; j++) {
+        const id = pairId(sorted[i].id, sorted[j].id);
+        if (!dismissed.has(id) && isLikelyDuplicate(sorted[i], sorted[j], windowDays)) {
+          pairs.push({ id, first: sorted[i], second: sorted[j] });
+        }
+      }
+    }
+  });
+  return pairs.sort((a, b) => b.second.date.localeCompare(a.second.date));
+}
+
+// The kept transaction with gaps filled from the one being removed. Its bank
+// id carries over so re-importing the same file doesn't bring the other back.
+export function mergeDuplicate(keep: Transaction, remove: Transaction): Transaction {
+  const tags = [...(keep.tags ?? []), ...(remove.tags ?? []).filter((tag) => !keep.tags?.includes(tag))];
+  return {
+    ...keep,
+    description: keep.description || remove.description,
+    tags: tags.length > 0 ? tags : undefined,
+    importId: keep.importId ?? remove.importId,
+    recurringRuleId: keep.recurringRuleId ?? remove.recurringRuleId,
+  };
+}
@@ -0,0 +1,175 @@
+import { Transaction } from "@/data/mockData";
+import { CurrencyCode, fromMajor, Money, toMajor } from "@/lib/money";
+import { withAmount } from "@/lib/splits";
+
+// Dated exchange rates kept entirely on the device. A rate says that on `date`
+// one unit of `from` was worth `rate` units of `to`.
+
+export type ExchangeRate = {
+  id: string;
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number;
+  date: string;
+};
+
+export type ExchangeRateInput = Omit<ExchangeRate, "id">;
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = [
+  "USD", "EUR", "GBP", "JPY", "CAD", "AUD", "CHF", "CNY", "INR", "ZAR", "NZD", "SEK", "MXN", "BRL",
+];
+
+type RateIndex = Map<string, ExchangeRate[]>;
+
+const pairKey = (from: CurrencyCode, to: CurrencyCode) => `${from}/${to}`;
+
+function buildIndex(rates: ExchangeRate[]): RateIndex {
+  const index: RateIndex = new Map();
+  for (const rate of rates) {
+    const key = pairKey(rate.from, rate.to);
+    index.set(key, [...(index.get(key) ?? []), rate]);
+  }
+  index.forEach((list) => list.sort((a, b) => a.date.localeCompare(b.date)));
+  return index;
+}
+
+// Latest rate on or before `date`; falls back to the earliest later one so a
+// table that starts after the first transaction still converts it
+function pickRate(list: ExchangeRate[] | undefined, date: string): number | null {
+  if (!list || list.length === 0) return null;
+  let chosen = list[0];
+  for (const rate of list) {
+    if (rate.date > date) break;
+    chosen = rate;
+  }
+  return chosen.rate;
+}
+
+function pickDirectOrInverse(index: RateIndex, from: CurrencyCode, to: CurrencyCode, date: string) {
+  const direct = pickRate(index.get(pairKey(from, to)), date);
+  if (direct !== null) return direct;
+  const inverse = pickRate(index.get(pairKey(to, from)), date);
+  return inverse ? 1 / inverse : null;
+}
+
+function lookup(index: RateIndex, from: CurrencyCode, to: CurrencyCode, date: string): number | null {
+  if (from === to) return 1;
+
+  const direct = pickDirectOrInverse(index, from, to, date);
+  if (direct !== null) return direct;
+
+  // One hop through any currency both sides have a rate against
+  for (const key of index.keys()) {
+    const [a, b] = key.split("/");
+    const pivot = a === from ? b : b === from ? a : null;
+    if (!pivot || pivot === to) continue;
+    const first = pickDirectOrInverse(index, from, pivot, date);
+    const second = pickDirectOrInverse(index, pivot, to, date);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+}
+
+export type Converter = {
+  base: CurrencyCode;
+  // The amount in the base currency, or null when no usable rate exists
+  convert: (amount: Money, date: string) => Money | null;
+  toBase: (transaction: Transaction) => Money | null;
+  // Copies of the convertible transactions with amounts in the base currency
+  // and the number of transactions dropped for lack of a rate
+  convertTransactions: (transactions: Transaction[]) => { converted: Transaction[]; missing: number };
+};
+
+export function createConverter(rates: ExchangeRate[], base: CurrencyCode): Converter {
+  const index = buildIndex(rates);
+  const cache = new WeakMap<Transaction[], { converted: Transaction[]; missing: number }>();
+
+  const convert = (amount: Money, date: string) => {
+    if (amount.currency === base) return amount;
+    const rate = lookup(index, amount.currency, base, date);
+    return rate === null ? null : fromMajor(toMajor(amount) * rate, base);
+  };
+
+  const toBase = (transaction: Transaction) => convert(transaction.amount, transaction.date);
+
+  const convertTransactions = (transactions: Transaction[]) => {
+    let result = cache.get(transactions);
+    if (!result) {
+      const converted: Transaction[] = [];
+      for (const t of transactions) {
+        const amount = toBase(t);
+        if (amount) converted.push(amount === t.amount ? t : withAmount(t, amount));
+      }
+      result = { converted, missing: transactions.length - converted.length };
+      cache.set(transactions, result);
+    }
+    return result;
+  };
+
+  return { base, convert, toBase, convertTransactions };
+}
+
+export type RateImportResult = {
+  rates: ExchangeRateInput[];
+  errors: string[];
+};
+
+const isCurrency = (value: unknown): value is string => typeof value === "string" && /^[A-Z]{3}$/.test(value);
+const isDate = (value: unknown): value is string => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+function validateRate(raw: Record<string, unknown>, where: string, errors: string[]): ExchangeRateInput | null {
+  const from = String(raw.from ?? "").trim().toUpperCase();
+  const to = String(raw.to ?? "").trim().toUpperCase();
+  const date = String(raw.date ?? "").trim();
+  const rate = Number(raw.rate);
+
+  if (!isCurrency(from) || !isCurrency(to)) errors.push(`${where}: currencies must be 3-letter codes`);
+  else if (from === to) errors.push(`${where}: from and to are the same currency`);
+  else if (!isDate(date)) errors.push(`${where}: date must be YYYY-MM-DD`);
+  else if (!Number.isFinite(rate) || rate <= 0) errors.push(`${where}: rate must be a positive number`);
+  else return { from, to, date, rate };
+  return null;
+}
+
+// Reads a rate table exported from a spreadsheet or another tool. Accepts a
+// JSON array of {date, from, to, rate} objects, or CSV with those columns
+// (a header row is optional when the columns are in that order).
+export function parseRatesFile(text: string, fileName = ""): RateImportResult {
+  const errors: string[] = [];
+  const rates: ExchangeRateInput[] = [];
+  const trimmed = text.trim();
+
+  if (fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("[")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return { rates, errors: ["File is not valid JSON"] };
+    }
+    if (!Array.isArray(data)) return { rates, errors: ["Expected a JSON array of rates"] };
+    data.forEach((raw, i) => {
+      const rate = validateRate(raw ?? {}, `Entry ${i + 1}`, errors);
+      if (rate) rates.push(rate);
+    });
+    return { rates, errors };
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim() !== "");
+  const split = (line: string) => line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+  let columns = ["date", "from", "to", "rate"];
+  let firstLine = 1;
+  const header = split(lines[0] ?? "").map((cell) => cell.toLowerCase());
+  if (columns.every((c) => header.includes(c))) {
+    columns = header;
+    lines.shift();
+    firstLine = 2;
+  }
+
+  lines.forEach((line, i) => {
+    const cells = split(line);
+    const raw = Object.fromEntries(columns.map((c, j) => [c, cells[j]]));
+    const rate = validateRate(raw, `Line ${i + firstLine}`, errors);
+    if (rate) rates.push(rate);
+  });
+  return { rates, errors };
+}
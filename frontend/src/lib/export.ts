@@ -0,0 +1,98 @@
+import { Transaction } from "@/data/mockData";
+import { Account } from "@/lib/accounts";
+import { Category } from "@/lib/categories";
+import { escapeFormula, toCsv } from "@/lib/csv";
+import { DateFormat, formatDate } from "@/lib/csvImport";
+import { toInputValue, toMajor } from "@/lib/money";
+import { toQif } from "@/lib/qif";
+import { transactionCategories } from "@/lib/splits";
+
+// QIF has a fixed layout, so columns, date format and delimiter only apply to CSV and JSON
+export type ExportFormat = "csv" | "json" | "qif";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; mimeType: string }[] = [
+  { value: "csv", label: "CSV", mimeType: "text/csv;charset=utf-8" },
+  { value: "json", label: "JSON", mimeType: "application/json" },
+  { value: "qif", label: "QIF (Quicken, legacy apps)", mimeType: "application/qif" },
+];
+
+type ExportContext = {
+  getCategory: (id: string) => Category;
+  accountName: (id: string) => string;
+  dateFormat: DateFormat;
+};
+
+export type ExportColumn = {
+  key: string;
+  label: string;
+  value: (t: Transaction, ctx: ExportContext) => string;
+  // JSON keeps numbers and lists as such instead of the CSV text
+  json?: (t: Transaction) => unknown;
+  // A number, written to CSV as is; other columns are guarded against formulas
+  numeric?: boolean;
+};
+
+// Income is positive and expenses negative, so a column sums to the net change.
+// Transfers stay positive; the accounts columns show the direction.
+const signedAmount = (t: Transaction) => (t.type === "expense" ? -1 : 1);
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "date", label: "Date", value: (t, ctx) => formatDate(t.date, ctx.dateFormat) },
+  { key: "description", label: "Description", value: (t) => t.description },
+  { key: "type", label: "Type", value: (t) => t.type },
+  {
+    key: "amount",
+    label: "Amount",
+    value: (t) => (signedAmount(t) < 0 ? "-" : "") + toInputValue(t.amount),
+    json: (t) => signedAmount(t) * toMajor(t.amount),
+    numeric: true,
+  },
+  { key: "currency", label: "Currency", value: (t) => t.amount.currency },
+  {
+    key: "category",
+    label: "Category",
+    // Split transactions list every line's category
+    value: (t, ctx) => transactionCategories(t).map((id) => ctx.getCategory(id).name).join("; "),
+  },
+  { key: "account", label: "Account", value: (t, ctx) => ctx.accountName(t.accountId) },
+  {
+    key: "toAccount",
+    label: "To Account",
+    value: (t, ctx) => (t.toAccountId ? ctx.accountName(t.toAccountId) : ""),
+  },
+  { key: "tags", label: "Tags", value: (t) => (t.tags ?? []).join("; "), json: (t) => t.tags ?? [] },
+  { key: "id", label: "ID", value: (t) => t.id },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = EXPORT_COLUMNS.map((c) => c.key).filter((key) => key !== "id");
+
+export function exportTransactions(
+  transactions: Transaction[],
+  columnKeys: string[],
+  format: ExportFormat,
+  ctx: ExportContext & { delimiter: string; accounts: Account[] },
+): string {
+  if (format === "qif") return toQif(transactions, ctx);
+
+  const columns = EXPORT_COLUMNS.filter((c) => columnKeys.includes(c.key));
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+
+  if (format === "json") {
+    const records = sorted.map((t) =>
+      Object.fromEntries(columns.map((c) => [c.key, c.json ? c.json(t) : c.value(t, ctx)])),
+    );
+    return JSON.stringify(records, null, 2);
+  }
+  const cell = (c: ExportColumn, t: Transaction) => (c.numeric ? c.value(t, ctx) : escapeFormula(c.value(t, ctx)));
+  return toCsv([columns.map((c) => c.label), ...sorted.map((t) => columns.map((c) => cell(c, t)))], ctx.delimiter);
+}
+
+// Saves text through a temporary link, since there is no server round trip
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
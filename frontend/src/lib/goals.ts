@@ -0,0 +1,81 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { add, Money, ratio, subtract, sum, zero } from "@/lib/money";
+
+// Savings goals. Progress is never typed in: it is the sum of the goal's
+// contributions, each optionally linked to the transaction that moved the money.
+
+export type Goal = {
+  id: string;
+  title: string;
+  target: Money;
+  targetDate?: string;
+  createdAt: string;
+};
+
+export type GoalInput = Omit<Goal, "id" | "createdAt">;
+
+export type GoalContribution = {
+  id: string;
+  goalId: string;
+  // In the goal's currency
+  amount: Money;
+  date: string;
+  transactionId?: string;
+  note?: string;
+};
+
+export type GoalContributionInput = Omit<GoalContribution, "id">;
+
+// How far back the contribution rate for projections looks
+export const PROJECTION_WINDOW_DAYS = 90;
+
+export type GoalProgress = {
+  saved: Money;
+  remaining: Money;
+  // 0-100, capped once the target is reached
+  percent: number;
+  complete: boolean;
+  // Estimated date the target is reached at the recent contribution rate;
+  // null when nothing was contributed in the projection window
+  projectedDate: string | null;
+  // Whether the projection lands on or before the target date (null without either)
+  onTrack: boolean | null;
+};
+
+export function computeGoalProgress(
+  goal: Goal,
+  contributions: GoalContribution[],
+  today: string = format(new Date(), "yyyy-MM-dd"),
+): GoalProgress {
+  const own = contributions.filter((c) => c.goalId === goal.id);
+  const { currency } = goal.target;
+  const saved = sum(own.map((c) => c.amount), currency);
+  const remaining = subtract(goal.target, saved);
+  const complete = remaining.amount <= 0;
+
+  const windowStart = format(addDays(parseISO(today), -PROJECTION_WINDOW_DAYS), "yyyy-MM-dd");
+  const recent = own
+    .filter((c) => c.date > windowStart && c.date <= today)
+    .reduce((total, c) => add(total, c.amount), zero(currency));
+
+  let projectedDate: string | null = null;
+  if (complete) {
+    projectedDate = today;
+  } else if (recent.amount > 0) {
+    const perDay = recent.amount / PROJECTION_WINDOW_DAYS;
+    projectedDate = format(addDays(parseISO(today), Math.ceil(remaining.amount / perDay)), "yyyy-MM-dd");
+  }
+
+  return {
+    saved,
+    remaining,
+    percent: Math.min(100, Math.max(0, ratio(saved, goal.target))),
+    complete,
+    projectedDate,
+    onTrack: projectedDate && goal.targetDate ? projectedDate <= goal.targetDate : null,
+  };
+}
+
+// Days left until the target date; negative once it has passed
+export const daysUntil = (date: string, today: string = format(new Date(), "yyyy-MM-dd")) =>
+  differenceInCalendarDays(parseISO(date), parseISO(today));
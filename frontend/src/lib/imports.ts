@@ -0,0 +1,79 @@
+import { Transaction } from "@/data/mockData";
+import { Category, categoriesFor } from "@/lib/categories";
+import { amountKey, DEFAULT_DUPLICATE_WINDOW_DAYS, groupByAmount, isLikelyDuplicate } from "@/lib/duplicates";
+
+// A transaction read from a bank file, before it's given an id
+export type ImportedTransaction = Omit<Transaction, "id" | "remoteId" | "syncStatus">;
+
+export type ImportRow = {
+  // 1-based position in the source file (the line of a CSV, the entry of a statement)
+  line: number;
+  // Null when the row has errors
+  input: ImportedTransaction | null;
+  errors: string[];
+  // Looks like a transaction already in the account; imported only if the user says so
+  duplicate: boolean;
+  // Carries a bank id that is already in the account; never imported again
+  imported: boolean;
+};
+
+// Imported rows only know the category by name; names are matched
+// case-insensitively among the categories allowed for the row's type
+export const FALLBACK_IMPORT_CATEGORY = "Other";
+
+export function matchCategory(name: string, type: "income" | "expense", categories: Category[]): string {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return FALLBACK_IMPORT_CATEGORY;
+  return categoriesFor(categories, type).find((c) => c.name.toLowerCase() === wanted)?.id ?? FALLBACK_IMPORT_CATEGORY;
+}
+
+// Without a bank id, a duplicate is the same account, day, direction and amount.
+// Descriptions are ignored because they rarely match what was typed by hand.
+const duplicateKey = (t: Pick<Transaction, "accountId" | "date" | "type" | "amount">) =>
+  [t.accountId, t.date, t.type, t.amount.amount, t.amount.currency].join("|");
+
+const importKey = (t: Pick<Transaction, "accountId" | "importId">) => `${t.accountId}|${t.importId}`;
+
+const count = (map: Map<string, number>, key: string) => map.set(key, (map.get(key) ?? 0) + 1);
+
+// Takes one from the count if any are left
+const take = (map: Map<string, number>, key: string) => {
+  const left = map.get(key) ?? 0;
+  if (left > 0) map.set(key, left - 1);
+  return left > 0;
+};
+
+// Marks rows whose bank id is already in the account as imported, and rows
+// that look like an existing transaction as duplicates. Each existing
+// transaction absorbs at most one exact match, so two identical purchases on
+// one day are only both flagged when both are already recorded. Past that, a
+// row is flagged when it's a likely duplicate (see lib/duplicates) of any
+// existing transaction. Two transactions that both carry bank ids are never
+// duplicates of each other: the bank says they differ. A bank id repeated
+// within the file, as overlapping statements do, is imported once.
+export function flagDuplicates(
+  rows: ImportRow[],
+  existing: Transaction[],
+  windowDays = DEFAULT_DUPLICATE_WINDOW_DAYS,
+): ImportRow[] {
+  const importIds = new Set(existing.filter((t) => t.importId).map(importKey));
+  const withoutId = new Map<string, number>();
+  const withId = new Map<string, number>();
+  for (const t of existing) count(t.importId ? withId : withoutId, duplicateKey(t));
+  const byAmount = groupByAmount(existing);
+
+  return rows.map((row) => {
+    const input = row.input;
+    if (!input) return { ...row, duplicate: false, imported: false };
+    if (input.importId) {
+      if (importIds.has(importKey(input))) return { ...row, duplicate: false, imported: true };
+      importIds.add(importKey(input));
+    }
+    const key = duplicateKey(input);
+    const duplicate =
+      take(withoutId, key) ||
+      (!input.importId && take(withId, key)) ||
+      (byAmount.get(amountKey(input)) ?? []).some((t) => isLikelyDuplicate(input, t, windowDays));
+    return { ...row, duplicate, imported: false };
+  });
+}
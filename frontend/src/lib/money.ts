@@ -0,0 +1,153 @@
+// Money as an integer count of the currency's minor unit (cents for USD, yen
+// for JPY) plus an ISO 4217 code. Arithmetic stays in integers, so repeated
+// sums never pick up floating-point drift; only parsing and formatting deal
+// with decimals.
+
+export type CurrencyCode = string;
+
+export type Money = {
+  amount: number;
+  currency: CurrencyCode;
+};
+
+export const DEFAULT_CURRENCY: CurrencyCode = "USD";
+
+export class CurrencyMismatchError extends Error {
+  constructor(a: CurrencyCode, b: CurrencyCode) {
+    super(`Cannot combine ${a} and ${b} amounts without converting first`);
+    this.name = "CurrencyMismatchError";
+  }
+}
+
+const digitsCache = new Map<CurrencyCode, number>();
+
+// Number of decimal places of the currency's minor unit, e.g. 2 for USD, 0 for JPY
+export function minorUnitDigits(currency: CurrencyCode): number {
+  let digits = digitsCache.get(currency);
+  if (digits === undefined) {
+    try {
+      digits = new Intl.NumberFormat("en-US", { style: "currency", currency }).resolvedOptions()
+        .maximumFractionDigits;
+    } catch {
+      digits = 2;
+    }
+    digitsCache.set(currency, digits);
+  }
+  return digits;
+}
+
+export const money = (amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money => {
+  if (!Number.isInteger(amount)) throw new RangeError(`Money amounts must be integers, got ${amount}`);
+  return { amount, currency };
+};
+
+export const zero = (currency: CurrencyCode = DEFAULT_CURRENCY): Money => ({ amount: 0, currency });
+
+// Converts a decimal major-unit value (12.34) into Money, rounding half away from zero
+export const fromMajor = (value: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money => {
+  const factor = 10 ** minorUnitDigits(currency);
+  return { amount: Math.sign(value) * Math.round(Math.abs(value) * factor), currency };
+};
+
+export const toMajor = (m: Money): number => m.amount / 10 ** minorUnitDigits(m.currency);
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) throw new CurrencyMismatchError(a.currency, b.currency);
+};
+
+export const add = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+};
+
+export const subtract = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+};
+
+export const negate = (m: Money): Money => ({ amount: -m.amount, currency: m.currency });
+
+export const abs = (m: Money): Money => ({ amount: Math.abs(m.amount), currency: m.currency });
+
+// Scales by a plain number (a ratio, an exchange rate) and rounds back to whole minor units
+export const multiply = (m: Money, factor: number): Money => ({
+  amount: Math.round(m.amount * factor),
+  currency: m.currency,
+});
+
+export const divide = (m: Money, divisor: number): Money => multiply(m, 1 / divisor);
+
+export const sum = (values: Money[], currency: CurrencyCode = DEFAULT_CURRENCY): Money =>
+  values.reduce(add, zero(currency));
+
+// Splits `total` in proportion to `weights` so the parts add up exactly;
+// leftover minor units go to the parts with the largest rounding remainders
+export function allocate(total: Money, weights: number[]): Money[] {
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  if (weights.length === 0) return [];
+  if (weightSum === 0) {
+    return weights.map((_, i) => ({ amount: i === 0 ? total.amount : 0, currency: total.currency }));
+  }
+
+  const exact = weights.map((w) => (total.amount * w) / weightSum);
+  const parts = exact.map(Math.trunc);
+  let leftover = total.amount - parts.reduce((a, b) => a + b, 0);
+  const step = Math.sign(leftover);
+  const order = exact
+    .map((value, i) => ({ i, remainder: Math.abs(value - parts[i]) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let k = 0; leftover !== 0; k = (k + 1) % order.length) {
+    parts[order[k].i] += step;
+    leftover -= step;
+  }
+  return parts.map((amount) => ({ amount, currency: total.currency }));
+}
+
+export const compare = (a: Money, b: Money): number => {
+  assertSameCurrency(a, b);
+  return a.amount - b.amount;
+};
+
+export const isZero = (m: Money) => m.amount === 0;
+
+export const isNegative = (m: Money) => m.amount < 0;
+
+// Share of `part` in `whole` as a percentage rounded to one decimal
+export const ratio = (part: Money, whole: Money): number => {
+  assertSameCurrency(part, whole);
+  return whole.amount === 0 ? 0 : Math.round((part.amount / whole.amount) * 1000) / 10;
+};
+
+// Parses user input such as "1,234.56", "$12" or "-3.5". Returns null when the
+// text isn't a number or has more decimals than the currency allows.
+export function parseMoney(input: string, currency: CurrencyCode = DEFAULT_CURRENCY): Money | null {
+  const cleaned = input.trim().replace(/[\s,]/g, "").replace(/^([+-]?)[^\d.+-]+/, "$1");
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(cleaned);
+  if (!match || (match[2] === "" && !match[3])) return null;
+
+  const [, sign, whole, fraction = ""] = match;
+  const digits = minorUnitDigits(currency);
+  if (fraction.length > digits) return null;
+
+  const amount = Number(whole || "0") * 10 ** digits + Number(fraction.padEnd(digits, "0") || "0");
+  return { amount: sign === "-" ? -amount : amount, currency };
+}
+
+// Plain decimal text for form inputs, e.g. "1234.50"
+export const toInputValue = (m: Money): string => toMajor(m).toFixed(minorUnitDigits(m.currency));
+
+type FormatOptions = {
+  locale?: string;
+  signDisplay?: Intl.NumberFormatOptions["signDisplay"];
+  // Drop the minor unit for large chart labels and headline figures
+  compact?: boolean;
+};
+
+export function formatMoney(m: Money, { locale, signDisplay = "auto", compact = false }: FormatOptions = {}) {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: m.currency,
+    signDisplay,
+    ...(compact && { maximumFractionDigits: 0, minimumFractionDigits: 0 }),
+  }).format(toMajor(m));
+}
@@ -0,0 +1,145 @@
+import { parseAmount } from "@/lib/csvImport";
+import { FALLBACK_IMPORT_CATEGORY, ImportRow } from "@/lib/imports";
+import { CurrencyCode } from "@/lib/money";
+
+// One STMTTRN entry, with values as they appear in the file
+export type OfxEntry = {
+  fitId: string;
+  trnType: string;
+  datePosted: string;
+  amount: string;
+  name: string;
+  memo: string;
+};
+
+// A bank or credit-card statement; a file may hold several
+export type OfxStatement = {
+  currency: CurrencyCode;
+  // The bank's account number, shown so users can tell statements apart
+  bankAccountId: string;
+  entries: OfxEntry[];
+};
+
+export const isOfx = (text: string, fileName = "") =>
+  /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text.slice(0, 4096));
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+const decode = (value: string) =>
+  value.replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, code: string) => {
+    if (code[0] !== "#") return ENTITIES[code.toLowerCase()] ?? match;
+    const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+  });
+
+// OFX 1.x is SGML where leaf elements have no closing tag; 2.x is XML where
+// they do. Reading the body as a flat stream of tags handles both: an opening
+// tag followed by text sets that field, and closing tags only matter for the
+// STMTTRN and statement aggregates.
+export function parseOfx(text: string): OfxStatement[] {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) throw new Error("Not an OFX file: no <OFX> element");
+
+  const statements: OfxStatement[] = [];
+  let statement: OfxStatement | null = null;
+  let entry: Partial<OfxEntry> | null = null;
+
+  const body = text.slice(start);
+  const tags = /<(\/?)([A-Z0-9.]+)[^>]*>([^<]*)/gi;
+  for (let match = tags.exec(body); match; match = tags.exec(body)) {
+    const [, closing, rawName, rawValue] = match;
+    const name = rawName.toUpperCase();
+    const value = decode(rawValue.trim());
+
+    if (name === "STMTRS" || name === "CCSTMTRS") {
+      if (closing) statement = null;
+      else {
+        statement = { currency: "", bankAccountId: "", entries: [] };
+        statements.push(statement);
+      }
+    } else if (name === "STMTTRN") {
+      if (closing && entry && statement) {
+        statement.entries.push({
+          fitId: entry.fitId ?? "",
+          trnType: entry.trnType ?? "",
+          datePosted: entry.datePosted ?? "",
+          amount: entry.amount ?? "",
+          name: entry.name ?? "",
+          memo: entry.memo ?? "",
+        });
+      }
+      entry = closing ? null : {};
+    } else if (!closing && value) {
+      if (entry) {
+        if (name === "FITID") entry.fitId = value;
+        else if (name === "TRNTYPE") entry.trnType = value;
+        else if (name === "DTPOSTED") entry.datePosted = value;
+        else if (name === "TRNAMT") entry.amount = value;
+        else if (name === "NAME") entry.name = value;
+        else if (name === "MEMO") entry.memo = value;
+      } else if (statement) {
+        if (name === "CURDEF") statement.currency = value.toUpperCase();
+        else if (name === "ACCTID") statement.bankAccountId = value;
+      }
+    }
+  }
+  return statements;
+}
+
+// DTPOSTED is YYYYMMDD optionally followed by a time and timezone; the date part is what counts
+export function parseOfxDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return date.getUTCDate() === Number(day) && date.getUTCMonth() === Number(month) - 1
+    ? `${year}-${month}-${day}`
+    : null;
+}
+
+type MapContext = {
+  accountId: string;
+  currency: CurrencyCode;
+};
+
+// Negative amounts are money out and become expenses, the rest income.
+// FITID becomes the transaction's importId, so a second import of an
+// overlapping statement skips what's already there (see flagDuplicates).
+export function mapOfxRows(statements: OfxStatement[], { accountId, currency }: MapContext): ImportRow[] {
+  let line = 0;
+  return statements.flatMap((statement) =>
+    statement.entries.map((entry): ImportRow => {
+      line++;
+      const errors: string[] = [];
+      if (statement.currency && statement.currency !== currency) {
+        errors.push(`Statement is in ${statement.currency} but the account is in ${currency}`);
+      }
+      const date = parseOfxDate(entry.datePosted);
+      if (!date) errors.push(`Unreadable date "${entry.datePosted}"`);
+      // A few banks write TRNAMT with a decimal comma
+      const amount = parseAmount(entry.amount, /,\d{1,2}$/.test(entry.amount) ? "," : ".", currency);
+      if (!amount) errors.push(`Unreadable amount "${entry.amount}"`);
+      else if (amount.amount === 0) errors.push("Amount is zero");
+
+      if (errors.length > 0 || !date || !amount) return { line, input: null, errors, duplicate: false, imported: false };
+
+      const type = amount.amount < 0 ? "expense" : "income";
+      return {
+        line,
+        input: {
+          type,
+          accountId,
+          amount: { amount: Math.abs(amount.amount), currency },
+          // OFX has no categories
+          category: FALLBACK_IMPORT_CATEGORY,
+          date,
+          description: entry.name || entry.memo || entry.trnType || "Imported transaction",
+          ...(entry.fitId && { importId: entry.fitId }),
+        },
+        errors,
+        duplicate: false,
+        imported: false,
+      };
+    }),
+  );
+}
@@ -0,0 +1,91 @@
+import { Transaction } from "@/data/mockData";
+import { add, CurrencyCode, divide, Money, zero } from "@/lib/money";
+
+// The merchant or person behind a transaction. Bank descriptions name the
+// same merchant many ways ("AMZN Mktp US*2K4", "Amazon.com", "AMAZON PRIME"),
+// so each payee lists aliases that are looked for in normalized descriptions.
+export type Payee = {
+  id: string;
+  name: string;
+  // Matched as whole words against normalized descriptions; the name always counts as one
+  aliases: string[];
+};
+
+export type PayeeInput = Omit<Payee, "id">;
+
+// Lowercase words only: reference codes after "*" ("US*2K4"), store numbers
+// ("#1234"), plain numbers and web suffixes (".com") are dropped
+export const normalizeDescription = (description: string): string =>
+  description
+    .toLowerCase()
+    .replace(/\*\S*\d\S*/g, " ")
+    .replace(/\.(com|net|org|co\.uk|de|fr)\b/g, " ")
+    .replace(/#\s*\d+/g, " ")
+    .replace(/[^\p{L}\p{N}&']+/gu, " ")
+    .replace(/\b\d+\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const payeeAliases = (payee: Payee) =>
+  [payee.name, ...payee.aliases].map(normalizeDescription).filter(Boolean);
+
+// Payee whose alias appears in the description; the longest alias wins, so
+// "amazon prime" beats "amazon" when both are listed under different payees
+export function matchPayee(description: string, payees: Payee[]): Payee | undefined {
+  const text = ` ${normalizeDescription(description)} `;
+  let best: { payee: Payee; length: number } | undefined;
+  for (const payee of payees) {
+    for (const alias of payeeAliases(payee)) {
+      if (text.includes(` ${alias} `) && alias.length > (best?.length ?? 0)) best = { payee, length: alias.length };
+    }
+  }
+  return best?.payee;
+}
+
+// The payee set on the transaction, or one its description matches
+export const payeeOf = (t: Pick<Transaction, "payeeId" | "description">, payees: Payee[]) =>
+  (t.payeeId && payees.find((p) => p.id === t.payeeId)) || matchPayee(t.description, payees);
+
+// Payees for the picker: names starting with the query first, then names or
+// aliases containing it
+export function searchPayees(query: string, payees: Payee[]): Payee[] {
+  const wanted = normalizeDescription(query);
+  if (!wanted) return payees;
+  const score = (payee: Payee) => {
+    const name = normalizeDescription(payee.name);
+    if (name.startsWith(wanted)) return 0;
+    if (name.includes(wanted)) return 1;
+    return payeeAliases(payee).some((alias) => alias.includes(wanted)) ? 2 : 3;
+  };
+  return payees
+    .map((payee) => ({ payee, score: score(payee) }))
+    .filter(({ score }) => score < 3)
+    .sort((a, b) => a.score - b.score || a.payee.name.localeCompare(b.payee.name))
+    .map(({ payee }) => payee);
+}
+
+export type PayeeStats = {
+  payee: Payee;
+  amount: Money;
+  count: number;
+  // Average ticket: amount over count
+  average: Money;
+};
+
+// Expenses per payee, biggest spend first. Transactions without a payee id
+// count under the payee their description matches. Amounts must already be
+// in `currency`, as with the selectors in lib/analytics.ts.
+export function selectExpensePayeeStats(transactions: Transaction[], payees: Payee[], currency: CurrencyCode) {
+  const byPayee = new Map<string, { payee: Payee; amount: Money; count: number }>();
+  for (const t of transactions) {
+    if (t.type !== "expense") continue;
+    const payee = payeeOf(t, payees);
+    if (!payee) continue;
+    const entry = byPayee.get(payee.id) ?? { payee, amount: zero(currency), count: 0 };
+    byPayee.set(payee.id, { payee, amount: add(entry.amount, t.amount), count: entry.count + 1 });
+  }
+  return Array.from(byPayee.values(), (entry): PayeeStats => ({
+    ...entry,
+    average: divide(entry.amount, entry.count),
+  })).sort((a, b) => b.amount.amount - a.amount.amount);
+}
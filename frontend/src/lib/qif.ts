@@ -0,0 +1,304 @@
+import { SPLIT_CATEGORY, SplitLine, Transaction, TRANSFER_CATEGORY } from "@/data/mockData";
+import { Account } from "@/lib/accounts";
+import { Category, CategoryKind } from "@/lib/categories";
+import { detectDateFormat, detectDecimalSeparator, parseAmount, parseDate } from "@/lib/csvImport";
+import { FALLBACK_IMPORT_CATEGORY, ImportRow } from "@/lib/imports";
+import { CurrencyCode, toInputValue } from "@/lib/money";
+import { isSplit } from "@/lib/splits";
+
+export type QifSplit = {
+  category: string;
+  amount: string;
+  memo: string;
+};
+
+// One record of a !Type:Bank or !Type:CCard section, with values as written
+export type QifEntry = {
+  date: string;
+  amount: string;
+  payee: string;
+  memo: string;
+  // "Parent:Child" category path, or "[Account]" for a transfer
+  category: string;
+  splits: QifSplit[];
+  // Name from the !Account block the entry's section follows, if any
+  account?: string;
+};
+
+// Section types that hold ordinary account transactions; investment,
+// memorized and category-list sections are skipped
+const TRANSACTION_SECTIONS = ["bank", "ccard"];
+
+export const isQif = (text: string, fileName = "") =>
+  /\.qif$/i.test(fileName) || /^\s*!(type|account|option)/i.test(text);
+
+// QIF is line-based: "!Type:X" starts a section, each line's first character
+// names the field, and "^" ends a record. An !Account block names the account
+// the sections after it belong to; only its name is kept.
+export function parseQif(text: string): QifEntry[] {
+  const entries: QifEntry[] = [];
+  let section = "";
+  let account: string | undefined;
+  let entry: QifEntry | null = null;
+  const newEntry = (): QifEntry => ({ date: "", amount: "", payee: "", memo: "", category: "", splits: [], account });
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    if (!line) continue;
+    if (line.startsWith("!")) {
+      const header = line.slice(1).toLowerCase();
+      section = header.startsWith("type:") ? header.slice(5).trim() : header;
+      entry = null;
+      continue;
+    }
+    if (section === "account") {
+      if (line[0] === "N") account = line.slice(1).trim() || undefined;
+      continue;
+    }
+    if (!TRANSACTION_SECTIONS.includes(section)) continue;
+    if (line === "^") {
+      if (entry) entries.push(entry);
+      entry = null;
+      continue;
+    }
+
+    if (!entry) entry = newEntry();
+    const value = line.slice(1).trim();
+    const split = entry.splits[entry.splits.length - 1];
+    switch (line[0]) {
+      case "D":
+        entry.date = value;
+        break;
+      case "T":
+        entry.amount = value;
+        break;
+      // Newer Quicken writes the amount twice; T wins when both are there
+      case "U":
+        if (!entry.amount) entry.amount = value;
+        break;
+      case "P":
+        entry.payee = value;
+        break;
+      case "M":
+        entry.memo = value;
+        break;
+      case "L":
+        entry.category = value;
+        break;
+      case "S":
+        entry.splits.push({ category: value, amount: "", memo: "" });
+        break;
+      case "$":
+        if (split) split.amount = value;
+        break;
+      case "E":
+        if (split) split.memo = value;
+        break;
+    }
+  }
+  if (entry) entries.push(entry);
+  return entries;
+}
+
+// Quicken writes dates like 3/15'24 or 3/ 5/2024; spaces go and the apostrophe becomes a slash
+const normalizeDate = (value: string) => value.replace(/\s/g, "").replace("'", "/");
+
+type CategoryField = { transferTo: string } | { path: string[] };
+
+// "Food:Groceries/Vacation" is a category path with a class after the slash,
+// which is dropped; "[Savings]" is a transfer. Only two levels are kept, as
+// Centsible nests subcategories one deep.
+export function parseCategoryField(value: string): CategoryField {
+  const field = value.split("/")[0].trim();
+  const transfer = /^\[(.*)\]$/.exec(field);
+  if (transfer) return { transferTo: transfer[1].trim() };
+  return { path: field.split(":").map((part) => part.trim()).filter(Boolean).slice(0, 2) };
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function findCategoryByPath(path: string[], categories: Category[]): Category | undefined {
+  const [parentName, childName] = path;
+  const parent = categories.find((c) => !c.parentId && sameName(c.name, parentName));
+  if (!childName) return parent;
+  return parent && categories.find((c) => c.parentId === parent.id && sameName(c.name, childName));
+}
+
+export type MissingCategory = {
+  path: string[];
+  kind: CategoryKind;
+};
+
+// Category paths the file uses that aren't in the registry, parents before
+// their children, with the kind implied by the amounts filed under them
+export function missingCategories(entries: QifEntry[], categories: Category[]): MissingCategory[] {
+  const kinds = new Map<string, Set<"income" | "expense">>();
+  const paths = new Map<string, string[]>();
+  const note = (field: string, amount: string) => {
+    const parsed = parseCategoryField(field);
+    if (!("path" in parsed) || parsed.path.length === 0) return;
+    const type = amount.trim().startsWith("-") ? "expense" : "income";
+    // A subcategory shares its parent's kind, so kinds are tracked per top-level name
+    const root = parsed.path[0].toLowerCase();
+    kinds.set(root, (kinds.get(root) ?? new Set()).add(type));
+    for (let depth = 1; depth <= parsed.path.length; depth++) {
+      const path = parsed.path.slice(0, depth);
+      const key = path.join(":").toLowerCase();
+      if (!paths.has(key) && !findCategoryByPath(path, categories)) paths.set(key, path);
+    }
+  };
+  for (const entry of entries) {
+    if (entry.splits.length > 0) entry.splits.forEach((s) => note(s.category, s.amount || entry.amount));
+    else note(entry.category, entry.amount);
+  }
+
+  return [...paths.values()]
+    .sort((a, b) => a.length - b.length)
+    .map((path) => {
+      const used = kinds.get(path[0].toLowerCase()) ?? new Set();
+      return { path, kind: used.size === 1 ? [...used][0] : "both" };
+    });
+}
+
+type MapContext = {
+  accountId: string;
+  currency: CurrencyCode;
+  categories: Category[];
+  accounts: Account[];
+};
+
+// Entries go to the Centsible account named like their !Account block, or to
+// `accountId` when the file names no such account. Negative amounts are expenses and the rest
+// income. "[Account]" categories naming another Centsible account become
+// transfers in the direction of the sign. Unknown categories fall back to
+// Other; create them first with missingCategories to keep them.
+export function mapQifRows(entries: QifEntry[], context: MapContext) {
+  const { categories, accounts } = context;
+  const dateFormat = detectDateFormat(entries.map((e) => normalizeDate(e.date)));
+  const decimal = detectDecimalSeparator(entries.flatMap((e) => [e.amount, ...e.splits.map((s) => s.amount)]));
+  const categoryId = (field: string) => {
+    const parsed = parseCategoryField(field);
+    return ("path" in parsed && findCategoryByPath(parsed.path, categories)?.id) || FALLBACK_IMPORT_CATEGORY;
+  };
+
+  return entries.map((entry, i): ImportRow => {
+    const named = entry.account ? accounts.find((a) => sameName(a.name, entry.account ?? "")) : undefined;
+    const accountId = named?.id ?? context.accountId;
+    const currency = named?.openingBalance.currency ?? context.currency;
+    const errors: string[] = [];
+    const date = parseDate(normalizeDate(entry.date), dateFormat);
+    if (!date) errors.push(`Unreadable date "${entry.date}"`);
+    const total = parseAmount(entry.amount, decimal, currency);
+    if (!total) errors.push(`Unreadable amount "${entry.amount}"`);
+    else if (total.amount === 0) errors.push("Amount is zero");
+
+    let splits: SplitLine[] | undefined;
+    if (total && entry.splits.length > 1) {
+      const lines = entry.splits.map((s) => ({ ...s, parsed: parseAmount(s.amount, decimal, currency) }));
+      const sign = Math.sign(total.amount);
+      if (lines.some((l) => !l.parsed)) errors.push("Unreadable split amount");
+      // Centsible's split lines are all positive shares of the total
+      else if (lines.some((l) => l.parsed && Math.sign(l.parsed.amount) === -sign)) {
+        errors.push("Split lines with both income and expenses aren't supported");
+      } else if (lines.reduce((sum, l) => sum + (l.parsed?.amount ?? 0), 0) !== total.amount) {
+        errors.push("Split lines don't add up to the total");
+      } else {
+        splits = lines
+          .filter((l) => l.parsed?.amount)
+          .map((l) => ({
+            category: categoryId(l.category),
+            amount: { amount: Math.abs(l.parsed?.amount ?? 0), currency },
+            ...(l.memo && { memo: l.memo }),
+          }));
+      }
+    }
+
+    if (errors.length > 0 || !date || !total) {
+      return { line: i + 1, input: null, errors, duplicate: false, imported: false };
+    }
+
+    const amount = { amount: Math.abs(total.amount), currency };
+    const description = entry.payee || entry.memo || "Imported transaction";
+    const base = { accountId, amount, date, description };
+
+    // A single split line is just the transaction's category
+    const field = entry.splits.length === 1 ? entry.splits[0].category : entry.category;
+    const parsed = parseCategoryField(field);
+    const other = "transferTo" in parsed
+      ? accounts.find((a) => a.id !== accountId && sameName(a.name, parsed.transferTo))
+      : undefined;
+
+    let input: ImportRow["input"];
+    if (!splits && other) {
+      input = total.amount < 0
+        ? { ...base, type: "transfer", category: TRANSFER_CATEGORY, toAccountId: other.id }
+        : { ...base, type: "transfer", category: TRANSFER_CATEGORY, accountId: other.id, toAccountId: accountId };
+    } else {
+      const type = total.amount < 0 ? "expense" : "income";
+      input = splits
+        ? { ...base, type, category: SPLIT_CATEGORY, splits }
+        : { ...base, type, category: categoryId(field) };
+    }
+    return { line: i + 1, input, errors, duplicate: false, imported: false };
+  });
+}
+
+type WriteContext = {
+  getCategory: (id: string) => Category;
+  accounts: Account[];
+};
+
+const categoryPath = (id: string, getCategory: (id: string) => Category) => {
+  const category = getCategory(id);
+  return category.parentId ? `${getCategory(category.parentId).name}:${category.name}` : category.name;
+};
+
+// QIF has no escaping, so line breaks inside a value would start a new field
+const clean = (value: string) => value.replace(/[\r\n]+/g, " ");
+
+const UNKNOWN_ACCOUNT = "Unknown account";
+
+// One !Account block per account, each followed by its transactions. A
+// transfer is written once, in the source account's section with the
+// destination as "[Account]", so reading the file back creates it once.
+// Transactions of accounts that no longer exist close the file under
+// UNKNOWN_ACCOUNT rather than being left out.
+export function toQif(transactions: Transaction[], { getCategory, accounts }: WriteContext): string {
+  const out: string[] = [];
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const accountName = (id?: string) => accounts.find((a) => a.id === id)?.name ?? UNKNOWN_ACCOUNT;
+  const sections = accounts.map((account) => ({
+    name: account.name,
+    type: account.type === "credit" ? "CCard" : "Bank",
+    entries: sorted.filter((t) => t.accountId === account.id),
+  }));
+  sections.push({
+    name: UNKNOWN_ACCOUNT,
+    type: "Bank",
+    entries: sorted.filter((t) => !accounts.some((a) => a.id === t.accountId)),
+  });
+
+  for (const { name, type, entries } of sections) {
+    if (entries.length === 0) continue;
+    out.push("!Account", `N${clean(name)}`, `T${type}`, "^", `!Type:${type}`);
+
+    for (const t of entries) {
+      const [year, month, day] = t.date.split("-");
+      const sign = t.type === "income" ? "" : "-";
+      out.push(`D${month}/${day}/${year}`, `T${sign}${toInputValue(t.amount)}`, `P${clean(t.description)}`);
+      if (t.type === "transfer") {
+        out.push(`L[${clean(accountName(t.toAccountId))}]`);
+      } else if (isSplit(t)) {
+        for (const line of t.splits) {
+          out.push(`S${clean(categoryPath(line.category, getCategory))}`);
+          if (line.memo) out.push(`E${clean(line.memo)}`);
+          out.push(`$${sign}${toInputValue(line.amount)}`);
+        }
+      } else {
+        out.push(`L${clean(categoryPath(t.category, getCategory))}`);
+      }
+      out.push("^");
+    }
+  }
+  return out.join("\r\n") + "\r\n";
+}
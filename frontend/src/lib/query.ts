@@ -0,0 +1,407 @@
+import { Transaction } from "@/data/mockData";
+import { Category } from "@/lib/categories";
+import { toMajor } from "@/lib/money";
+import { transactionCategories } from "@/lib/splits";
+import { formatTag, normalizeTag } from "@/lib/tags";
+
+// Search queries for the Transactions page, e.g.
+//   amount:>100 category:Food,Transport before:2025-01-01 tag:work -description:refund
+// Terms next to each other must all match (AND); OR between terms matches
+// either side; "-" or NOT negates a term; parentheses group. Commas inside a
+// field's value list alternatives. Plain words search descriptions,
+// categories, tags and payees like the old search box did.
+
+export type QueryField =
+  | "description"
+  | "category"
+  | "tag"
+  | "account"
+  | "payee"
+  | "type"
+  | "amount"
+  | "date"
+  | "before"
+  | "after"
+  | "currency";
+
+export const QUERY_FIELDS: { name: QueryField; hint: string }[] = [
+  { name: "description", hint: "Description contains, e.g. description:refund" },
+  { name: "category", hint: "Category or its parent, e.g. category:Food,Transport" },
+  { name: "tag", hint: "Has the tag, e.g. tag:work" },
+  { name: "account", hint: "From or to the account, e.g. account:Checking" },
+  { name: "payee", hint: "Filed under the payee, e.g. payee:Amazon" },
+  { name: "type", hint: "income, expense or transfer" },
+  { name: "amount", hint: "Compare or range, e.g. amount:>100 or amount:10..50" },
+  { name: "date", hint: "Day, month or range, e.g. date:2025-03 or date:>=2025-01-01" },
+  { name: "before", hint: "Strictly before a date, e.g. before:2025-01-01" },
+  { name: "after", hint: "Strictly after a date, e.g. after:2024-12-31" },
+  { name: "currency", hint: "Currency code, e.g. currency:EUR" },
+];
+
+const FIELD_NAMES = new Set<string>(QUERY_FIELDS.map((f) => f.name));
+
+export type QueryTokenKind = "field" | "value" | "text" | "operator" | "negation" | "paren" | "error";
+
+// A span of the query as typed, for highlighting and completion
+export type QueryToken = {
+  kind: QueryTokenKind;
+  text: string;
+  start: number;
+  end: number;
+};
+
+// Splits the query into tokens. A quoted part may hold spaces; an unknown
+// "field:" is an error token so it can be shown as such.
+export function tokenizeQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: "paren", text: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === "-" && i + 1 < query.length && !/[\s()]/.test(query[i + 1])) {
+      tokens.push({ kind: "negation", text: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let quoted = false;
+    while (i < query.length && (quoted || !/[\s()]/.test(query[i]))) {
+      if (query[i] === '"') quoted = !quoted;
+      i++;
+    }
+    const word = query.slice(start, i);
+    const field = /^([a-z]+):/i.exec(word);
+    if (word === "AND" || word === "OR" || word === "NOT") {
+      tokens.push({ kind: "operator", text: word, start, end: i });
+    } else if (field) {
+      const fieldEnd = start + field[0].length;
+      const known = FIELD_NAMES.has(field[1].toLowerCase());
+      tokens.push({ kind: known ? "field" : "error", text: field[0], start, end: fieldEnd });
+      tokens.push({ kind: "value", text: word.slice(field[0].length), start: fieldEnd, end: i });
+    } else {
+      tokens.push({ kind: "text", text: word, start, end: i });
+    }
+  }
+  return tokens;
+}
+
+// Comma-separated alternatives; commas inside quotes don't split
+export function splitValues(value: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === "," && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(unquote).filter((part) => part !== "");
+}
+
+const unquote = (value: string) => value.trim().replace(/^"|"$/g, "").trim();
+
+type Comparison = { op: "<" | "<=" | ">" | ">=" | "="; value: number | string };
+
+// ">100", ">=2025-01-01", "10..50", or a plain value meaning "="
+function parseComparisons(value: string): Comparison[] {
+  const range = /^(.+)\.\.(.+)$/.exec(value);
+  if (range) return [{ op: ">=", value: range[1] }, { op: "<=", value: range[2] }];
+  const match = /^(<=|>=|<|>|=)?(.*)$/.exec(value);
+  return [{ op: (match?.[1] as Comparison["op"]) || "=", value: match?.[2] ?? "" }];
+}
+
+const compare = (a: number | string, { op, value }: Comparison) => {
+  switch (op) {
+    case "<":
+      return a < value;
+    case "<=":
+      return a <= value;
+    case ">":
+      return a > value;
+    case ">=":
+      return a >= value;
+    case "=":
+      return a === value;
+  }
+};
+
+// Dates may be a whole year or month; a partial date compares as its first or last day
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+const dateBound = (value: string, op: Comparison["op"]) => {
+  if (value.length === 10) return value;
+  const end = op === "<=" || op === ">";
+  if (value.length === 7) return `${value}-${end ? "31" : "01"}`;
+  return `${value}-${end ? "12-31" : "01-01"}`;
+};
+
+export type QueryNode =
+  | { kind: "and" | "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode }
+  | { kind: "text"; text: string }
+  | { kind: "term"; field: QueryField; values: string[]; comparisons: Comparison[][] };
+
+export type ParsedQuery = {
+  tokens: QueryToken[];
+  // Null for an empty query, which matches everything
+  root: QueryNode | null;
+  // Problems with the query; the terms they concern are left out
+  errors: string[];
+};
+
+function termFor(field: QueryField, raw: string, errors: string[]): QueryNode | null {
+  const values = splitValues(raw);
+  if (values.length === 0) {
+    errors.push(`${field}: needs a value`);
+    return null;
+  }
+  let comparisons: Comparison[][] = [];
+  if (field === "amount") {
+    comparisons = values.map(parseComparisons);
+    const invalid = comparisons.flat().find((c) => c.value === "" || !Number.isFinite(Number(c.value)));
+    if (invalid) {
+      errors.push(`"${raw}" isn't an amount`);
+      return null;
+    }
+    comparisons = comparisons.map((list) => list.map((c) => ({ ...c, value: Number(c.value) })));
+  } else if (field === "date" || field === "before" || field === "after") {
+    comparisons = values.map((value) =>
+      field === "before" ? [{ op: "<", value }] : field === "after" ? [{ op: ">", value }] : parseComparisons(value),
+    );
+    if (comparisons.flat().some((c) => !DATE_PATTERN.test(String(c.value)))) {
+      errors.push(`"${raw}" isn't a date; use YYYY-MM-DD, YYYY-MM or YYYY`);
+      return null;
+    }
+    // A plain month or year covers every day in it
+    comparisons = comparisons.map((list) =>
+      list.length === 1 && list[0].op === "="
+        ? [
+            { op: ">=", value: dateBound(String(list[0].value), ">=") },
+            { op: "<=", value: dateBound(String(list[0].value), "<=") },
+          ]
+        : list.map((c) => ({ ...c, value: dateBound(String(c.value), c.op) })),
+    );
+  } else if (field === "type" && values.some((v) => !["income", "expense", "transfer"].includes(v.toLowerCase()))) {
+    errors.push("type: is income, expense or transfer");
+    return null;
+  }
+  return { kind: "term", field, values, comparisons };
+}
+
+// Recursive descent: OR binds loosest, then AND (written or implied), then NOT
+export function parseQuery(query: string): ParsedQuery {
+  const tokens = tokenizeQuery(query);
+  const errors: string[] = [];
+  let pos = 0;
+
+  const combine = (kind: "and" | "or", children: QueryNode[]): QueryNode | null =>
+    children.length === 0 ? null : children.length === 1 ? children[0] : { kind, children };
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+    while (tokens[pos]?.kind === "operator" && tokens[pos].text === "OR") {
+      pos++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+    return combine("or", children);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.kind === "paren" && token.text === ")") break;
+      if (token.kind === "operator" && token.text === "OR") break;
+      if (token.kind === "operator" && token.text === "AND") {
+        pos++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    return combine("and", children);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[pos++];
+    if (token.kind === "negation" || (token.kind === "operator" && token.text === "NOT")) {
+      if (pos >= tokens.length) return null;
+      const child = parseUnary();
+      return child && { kind: "not", child };
+    }
+    if (token.kind === "paren") {
+      if (token.text === ")") return null;
+      const inner = parseOr();
+      if (tokens[pos]?.kind === "paren" && tokens[pos].text === ")") pos++;
+      else errors.push("Missing closing parenthesis");
+      return inner;
+    }
+    if (token.kind === "field" || token.kind === "error") {
+      const value = tokens[pos]?.kind === "value" ? tokens[pos++].text : "";
+      const name = token.text.slice(0, -1).toLowerCase();
+      if (token.kind === "error") {
+        errors.push(`Unknown field "${name}"`);
+        return null;
+      }
+      return termFor(name as QueryField, value, errors);
+    }
+    // Stray operators are skipped; "AND" and "OR" are handled by the callers
+    if (token.kind === "operator") return null;
+    const text = unquote(token.text);
+    return text ? { kind: "text", text: text.toLowerCase() } : null;
+  };
+
+  const parts: QueryNode[] = [];
+  while (pos < tokens.length) {
+    const node = parseOr();
+    if (node) parts.push(node);
+    // A ")" without an opening one
+    if (tokens[pos]?.kind === "paren") {
+      errors.push("Unexpected closing parenthesis");
+      pos++;
+    }
+  }
+  return { tokens, root: combine("and", parts), errors };
+}
+
+// Names the query compares against
+export type QueryContext = {
+  getCategory: (id: string) => Category;
+  accountName: (id: string) => string;
+  payeeName: (t: Transaction) => string | undefined;
+};
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function matchesTerm(node: Extract<QueryNode, { kind: "term" }>, t: Transaction, ctx: QueryContext): boolean {
+  const anyValue = (test: (value: string) => boolean) => node.values.some(test);
+  const anyComparison = (subject: number | string) =>
+    node.comparisons.some((list) => list.every((c) => compare(subject, c)));
+
+  switch (node.field) {
+    case "description":
+      return anyValue((v) => t.description.toLowerCase().includes(v.toLowerCase()));
+    case "category":
+      // A parent category also matches its subcategories
+      return transactionCategories(t).some((id) => {
+        const category = ctx.getCategory(id);
+        const parent = category.parentId ? ctx.getCategory(category.parentId) : undefined;
+        return anyValue((v) => same(category.name, v) || (!!parent && same(parent.name, v)));
+      });
+    case "tag":
+      return anyValue((v) => (t.tags ?? []).includes(normalizeTag(v)));
+    case "account":
+      return anyValue(
+        (v) => same(ctx.accountName(t.accountId), v) || (!!t.toAccountId && same(ctx.accountName(t.toAccountId), v)),
+      );
+    case "payee": {
+      const payee = ctx.payeeName(t);
+      return !!payee && anyValue((v) => same(payee, v));
+    }
+    case "type":
+      return anyValue((v) => same(t.type, v));
+    case "currency":
+      return anyValue((v) => same(t.amount.currency, v));
+    case "amount":
+      return anyComparison(toMajor(t.amount));
+    case "date":
+    case "before":
+    case "after":
+      return anyComparison(t.date);
+  }
+}
+
+// Plain words look at the description, category names, tags and payee
+function matchesText(text: string, t: Transaction, ctx: QueryContext): boolean {
+  return (
+    t.description.toLowerCase().includes(text) ||
+    transactionCategories(t).some((id) => ctx.getCategory(id).name.toLowerCase().includes(text)) ||
+    (t.tags ?? []).some((tag) => formatTag(tag).includes(text)) ||
+    (ctx.payeeName(t)?.toLowerCase().includes(text) ?? false)
+  );
+}
+
+export function matchesQuery(node: QueryNode | null, t: Transaction, ctx: QueryContext): boolean {
+  if (!node) return true;
+  switch (node.kind) {
+    case "and":
+      return node.children.every((child) => matchesQuery(child, t, ctx));
+    case "or":
+      return node.children.some((child) => matchesQuery(child, t, ctx));
+    case "not":
+      return !matchesQuery(node.child, t, ctx);
+    case "text":
+      return matchesText(node.text, t, ctx);
+    case "term":
+      return matchesTerm(node, t, ctx);
+  }
+}
+
+// Known values per field, offered as completions
+export type QueryValues = Partial<Record<QueryField, string[]>>;
+
+export type QueryCompletion = {
+  label: string;
+  // Replaces the query from `from` to the cursor
+  insert: string;
+  hint?: string;
+};
+
+export type QueryCompletions = { from: number; options: QueryCompletion[] };
+
+const MAX_COMPLETIONS = 8;
+
+const quoteIfNeeded = (value: string) => (/[\s,()"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value);
+
+// What could complete the word at the cursor: a field name while typing a
+// plain word, or one of the field's known values after "field:"
+export function completeQuery(query: string, cursor: number, values: QueryValues): QueryCompletions | null {
+  const tokens = tokenizeQuery(query.slice(0, cursor));
+  const last = tokens[tokens.length - 1];
+  if (!last || last.end !== cursor) return null;
+
+  if (last.kind === "text" && /^[a-z]+$/i.test(last.text)) {
+    const word = last.text.toLowerCase();
+    const options = QUERY_FIELDS.filter((f) => f.name.startsWith(word)).map((f) => ({
+      label: `${f.name}:`,
+      insert: `${f.name}:`,
+      hint: f.hint,
+    }));
+    return options.length > 0 ? { from: last.start, options } : null;
+  }
+
+  const fieldToken = last.kind === "value" ? tokens[tokens.length - 2] : last.kind === "field" ? last : undefined;
+  if (!fieldToken || fieldToken.kind !== "field") return null;
+  const field = fieldToken.text.slice(0, -1).toLowerCase() as QueryField;
+  const typed = last.kind === "value" ? last.text : "";
+  // Only the alternative after the last comma is being typed
+  const itemStart = typed.lastIndexOf(",") + 1;
+  const partial = unquote(typed.slice(itemStart)).toLowerCase();
+  const chosen = splitValues(typed.slice(0, itemStart)).map((v) => v.toLowerCase());
+
+  const known = values[field] ?? [];
+  const options = known
+    .filter((value) => !chosen.includes(value.toLowerCase()))
+    .filter((value) => value.toLowerCase().includes(partial))
+    .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)))
+    .slice(0, MAX_COMPLETIONS)
+    .map((value) => ({ label: value, insert: `${quoteIfNeeded(value)} ` }));
+  const from = (last.kind === "value" ? last.start : cursor) + itemStart;
+  return options.length > 0 ? { from, options } : null;
+}
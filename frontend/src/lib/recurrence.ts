@@ -0,0 +1,226 @@
+import {
+  addDays,
+  addMonths,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+  format,
+  getDaysInMonth,
+  parseISO,
+} from "date-fns";
+import { Transaction } from "@/data/mockData";
+
+// Recurring transactions. A rule holds a transaction template and a schedule;
+// the generator turns every occurrence that has come due into a transaction.
+// Dates are yyyy-mm-dd strings throughout, like Transaction.date.
+
+export type Frequency = "daily" | "weekly" | "biweekly" | "monthly" | "yearly";
+
+export type RecurrenceSchedule = {
+  frequency: Frequency;
+  // First occurrence
+  startDate: string;
+  // Monthly rules only: day of the month, moved to the last day in shorter months
+  dayOfMonth?: number;
+  // Either bound is optional; a rule without both repeats forever
+  endDate?: string;
+  count?: number;
+};
+
+// Everything a generated transaction copies from its rule
+export type RuleTemplate = Omit<Transaction, "id" | "date" | "remoteId" | "syncStatus" | "recurringRuleId">;
+
+export type RecurringRule = RecurrenceSchedule & {
+  id: string;
+  template: RuleTemplate;
+  // Latest occurrence already turned into a transaction. Instances the user
+  // deletes afterwards are not recreated.
+  generatedThrough?: string;
+};
+
+export type RecurringRuleInput = Omit<RecurringRule, "id">;
+
+export const FREQUENCIES: { value: Frequency; label: string }[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every 2 weeks" },
+  { value: "monthly", label: "Monthly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+// Upper bound on new occurrences produced in one pass, so a daily rule started
+// decades ago can't lock up the page; the next pass picks up where it stopped
+const MAX_OCCURRENCES = 5000;
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+export const today = () => toDateString(new Date());
+
+// The n-th candidate date counted from the start. Each one is computed from the
+// start rather than the previous date, so clamping to a short month doesn't drift.
+function nthDate(schedule: RecurrenceSchedule, n: number): string {
+  const start = parseISO(schedule.startDate);
+  switch (schedule.frequency) {
+    case "daily":
+      return toDateString(addDays(start, n));
+    case "weekly":
+      return toDateString(addDays(start, 7 * n));
+    case "biweekly":
+      return toDateString(addDays(start, 14 * n));
+    case "yearly":
+      return toDateString(addYears(start, n));
+    case "monthly": {
+      const month = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), n);
+      const day = Math.min(schedule.dayOfMonth ?? start.getDate(), getDaysInMonth(month));
+      return toDateString(new Date(month.getFullYear(), month.getMonth(), day));
+    }
+  }
+}
+
+// A candidate index whose date falls before `date`, worked out arithmetically
+// so long-running rules don't walk every occurrence since the start
+function indexBefore(schedule: RecurrenceSchedule, date: string): number {
+  if (date <= schedule.startDate) return 0;
+  const start = parseISO(schedule.startDate);
+  const target = parseISO(date);
+  const steps = {
+    daily: () => differenceInCalendarDays(target, start),
+    weekly: () => Math.floor(differenceInCalendarDays(target, start) / 7),
+    biweekly: () => Math.floor(differenceInCalendarDays(target, start) / 14),
+    monthly: () => differenceInCalendarMonths(target, start),
+    yearly: () => differenceInCalendarYears(target, start),
+  }[schedule.frequency]();
+  return Math.max(0, steps - 1);
+}
+
+// Whether candidate `n` comes after the rule's end date or its last counted occurrence
+function isPastEnd(schedule: RecurrenceSchedule, n: number, date: string): boolean {
+  if (schedule.endDate && date > schedule.endDate) return true;
+  if (schedule.count === undefined) return false;
+  // A monthly day earlier than the start date's day falls before the start in
+  // the first month, so that candidate isn't an occurrence
+  const position = nthDate(schedule, 0) < schedule.startDate ? n - 1 : n;
+  return position >= schedule.count;
+}
+
+// Occurrences after `after` (from the start when omitted) up to and including
+// `until`, oldest first
+export function occurrencesUntil(schedule: RecurrenceSchedule, until: string, after?: string): string[] {
+  const dates: string[] = [];
+  for (let n = after ? indexBefore(schedule, after) : 0; dates.length < MAX_OCCURRENCES; n++) {
+    const date = nthDate(schedule, n);
+    if (date < schedule.startDate || (after && date <= after)) continue;
+    if (date > until || isPastEnd(schedule, n, date)) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+// First occurrence after `after`, or null once the rule has ended
+export function nextOccurrence(schedule: RecurrenceSchedule, after: string): string | null {
+  for (let n = indexBefore(schedule, after); ; n++) {
+    const date = nthDate(schedule, n);
+    if (date < schedule.startDate || date <= after) continue;
+    return isPastEnd(schedule, n, date) ? null : date;
+  }
+}
+
+export const instanceKey = (ruleId: string, date: string) => `${ruleId}:${date}`;
+
+export type DueInstances = {
+  rule: RecurringRule;
+  // Occurrences to create now; dates that already have an instance are left out
+  dates: string[];
+  generatedThrough: string;
+};
+
+// Occurrences that have come due since each rule last ran. `existing` holds
+// "ruleId:date" keys of instances already stored, which keeps the generator
+// idempotent even if a previous run saved transactions but not the rule.
+export function findDueInstances(
+  rules: RecurringRule[],
+  existing: Set<string>,
+  asOf = today(),
+): DueInstances[] {
+  const due: DueInstances[] = [];
+  for (const rule of rules) {
+    const pending = occurrencesUntil(rule, asOf, rule.generatedThrough);
+    if (pending.length === 0) continue;
+    due.push({
+      rule,
+      dates: pending.filter((date) => !existing.has(instanceKey(rule.id, date))),
+      generatedThrough: pending[pending.length - 1],
+    });
+  }
+  return due;
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+};
+
+// Human-readable schedule, e.g. "Monthly on the 1st, 12 times"
+export function describeSchedule(schedule: RecurrenceSchedule): string {
+  const start = parseISO(schedule.startDate);
+  const base = {
+    daily: "Daily",
+    weekly: `Weekly on ${format(start, "EEEE")}`,
+    biweekly: `Every 2 weeks on ${format(start, "EEEE")}`,
+    monthly: `Monthly on the ${ordinal(schedule.dayOfMonth ?? start.getDate())}`,
+    yearly: `Yearly on ${format(start, "MMMM d")}`,
+  }[schedule.frequency];
+
+  if (schedule.count !== undefined) return `${base}, ${schedule.count} time${schedule.count === 1 ? "" : "s"}`;
+  if (schedule.endDate) return `${base} until ${format(parseISO(schedule.endDate), "MMM d, yyyy")}`;
+  return base;
+}
+
+// Schedule fields as typed into a form
+export type RecurrenceDraft = {
+  frequency: Frequency;
+  dayOfMonth: string;
+  ends: "never" | "on" | "after";
+  endDate: string;
+  count: string;
+};
+
+export const defaultRecurrenceDraft = (): RecurrenceDraft => ({
+  frequency: "monthly",
+  dayOfMonth: "",
+  ends: "never",
+  endDate: "",
+  count: "",
+});
+
+export const toRecurrenceDraft = (schedule: RecurrenceSchedule): RecurrenceDraft => ({
+  frequency: schedule.frequency,
+  dayOfMonth: schedule.dayOfMonth ? String(schedule.dayOfMonth) : "",
+  ends: schedule.count !== undefined ? "after" : schedule.endDate ? "on" : "never",
+  endDate: schedule.endDate ?? "",
+  count: schedule.count !== undefined ? String(schedule.count) : "",
+});
+
+// The schedule described by the draft, or null while a field is invalid.
+// An empty day of month means the start date's day.
+export function parseRecurrenceDraft(draft: RecurrenceDraft, startDate: string): RecurrenceSchedule | null {
+  if (!startDate) return null;
+  const schedule: RecurrenceSchedule = { frequency: draft.frequency, startDate };
+
+  if (draft.frequency === "monthly") {
+    const day = draft.dayOfMonth === "" ? parseISO(startDate).getDate() : Number(draft.dayOfMonth);
+    if (!Number.isInteger(day) || day < 1 || day > 31) return null;
+    schedule.dayOfMonth = day;
+  }
+  if (draft.ends === "on") {
+    if (!draft.endDate || draft.endDate < startDate) return null;
+    schedule.endDate = draft.endDate;
+  }
+  if (draft.ends === "after") {
+    const count = Number(draft.count);
+    if (!Number.isInteger(count) || count < 1) return null;
+    schedule.count = count;
+  }
+  return schedule;
+}
@@ -0,0 +1,130 @@
+import { Transaction } from "@/data/mockData";
+import { FALLBACK_IMPORT_CATEGORY, ImportRow } from "@/lib/imports";
+import { Money, toMajor } from "@/lib/money";
+import { isSplit } from "@/lib/splits";
+import { addTag } from "@/lib/tags";
+
+export type DescriptionMatch = "contains" | "startsWith" | "equals" | "regex";
+
+export const DESCRIPTION_MATCHES: { value: DescriptionMatch; label: string }[] = [
+  { value: "contains", label: "Contains" },
+  { value: "startsWith", label: "Starts with" },
+  { value: "equals", label: "Is exactly" },
+  { value: "regex", label: "Matches pattern" },
+];
+
+// "Description matches X, amount between A and B, type is T → category Y,
+// tags Z". Conditions left empty match anything; at least one must be set.
+export type CategoryRule = {
+  id: string;
+  name: string;
+  // Lower runs first; the first enabled rule that matches wins
+  priority: number;
+  enabled: boolean;
+  descriptionMatch: DescriptionMatch;
+  // Case-insensitive; empty matches any description
+  descriptionPattern: string;
+  // Inclusive bounds in major units of the transaction's own currency
+  minAmount?: number;
+  maxAmount?: number;
+  // Set from the category's kind when it only fits one type
+  type?: "income" | "expense";
+  category: string;
+  // Added to the transaction's own tags
+  tags: string[];
+};
+
+export type CategoryRuleInput = Omit<CategoryRule, "id" | "priority">;
+
+// What a rule looks at; the amount is null while a form is still being filled in
+export type RuleSubject = Pick<Transaction, "type" | "description"> & { amount: Money | null };
+
+// An invalid pattern is reported here and simply never matches
+export function patternError(rule: Pick<CategoryRule, "descriptionMatch" | "descriptionPattern">): string | null {
+  if (rule.descriptionMatch !== "regex") return null;
+  try {
+    new RegExp(rule.descriptionPattern, "i");
+    return null;
+  } catch {
+    return "Not a valid pattern";
+  }
+}
+
+export const hasCondition = (rule: Pick<CategoryRule, "descriptionPattern" | "minAmount" | "maxAmount" | "type">) =>
+  rule.descriptionPattern.trim() !== "" ||
+  rule.minAmount !== undefined ||
+  rule.maxAmount !== undefined ||
+  rule.type !== undefined;
+
+function matchesDescription(rule: CategoryRule, description: string): boolean {
+  const pattern = rule.descriptionPattern.trim().toLowerCase();
+  if (!pattern) return true;
+  const text = description.toLowerCase();
+  switch (rule.descriptionMatch) {
+    case "contains":
+      return text.includes(pattern);
+    case "startsWith":
+      return text.startsWith(pattern);
+    case "equals":
+      return text.trim() === pattern;
+    case "regex":
+      return !patternError(rule) && new RegExp(rule.descriptionPattern, "i").test(description);
+  }
+}
+
+export function matchesRule(rule: CategoryRule, t: RuleSubject): boolean {
+  if (t.type === "transfer" || (rule.type && rule.type !== t.type)) return false;
+  if (rule.minAmount !== undefined || rule.maxAmount !== undefined) {
+    if (!t.amount) return false;
+    const value = toMajor(t.amount);
+    if (rule.minAmount !== undefined && value < rule.minAmount) return false;
+    if (rule.maxAmount !== undefined && value > rule.maxAmount) return false;
+  }
+  return matchesDescription(rule, t.description);
+}
+
+export const byPriority = (a: CategoryRule, b: CategoryRule) => a.priority - b.priority;
+
+export const findCategoryRule = (rules: CategoryRule[], t: RuleSubject): CategoryRule | undefined =>
+  rules.filter((r) => r.enabled && hasCondition(r)).sort(byPriority).find((r) => matchesRule(r, t));
+
+type Categorizable = Pick<Transaction, "type" | "description" | "amount" | "category" | "splits" | "tags">;
+
+// Copy with the rule's category and tags, or null when the rule changes nothing.
+// Split transactions keep their lines.
+export function applyCategoryRule<T extends Categorizable>(rule: CategoryRule, t: T): T | null {
+  if (isSplit(t) || !matchesRule(rule, t)) return null;
+  const tags = rule.tags.reduce(addTag, t.tags ?? []);
+  if (t.category === rule.category && tags.length === (t.tags ?? []).length) return null;
+  return { ...t, category: rule.category, ...(tags.length > 0 && { tags }) };
+}
+
+// Applies the first matching rule; unchanged when none matches
+export function categorize<T extends Categorizable>(rules: CategoryRule[], t: T): T {
+  const rule = findCategoryRule(rules, t);
+  return (rule && applyCategoryRule(rule, t)) ?? t;
+}
+
+// Short human-readable summary of a rule's conditions
+export function describeConditions(rule: CategoryRule, formatAmount: (value: number) => string): string {
+  const parts: string[] = [];
+  if (rule.descriptionPattern.trim()) {
+    const label = DESCRIPTION_MATCHES.find((m) => m.value === rule.descriptionMatch)?.label.toLowerCase();
+    parts.push(`description ${label} "${rule.descriptionPattern.trim()}"`);
+  }
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined) {
+    parts.push(`amount ${formatAmount(rule.minAmount)}–${formatAmount(rule.maxAmount)}`);
+  } else if (rule.minAmount !== undefined) parts.push(`amount ≥ ${formatAmount(rule.minAmount)}`);
+  else if (rule.maxAmount !== undefined) parts.push(`amount ≤ ${formatAmount(rule.maxAmount)}`);
+  if (rule.type) parts.push(`type is ${rule.type}`);
+  return parts.join(", ");
+}
+
+// Only imported rows the source couldn't categorize are offered to the rules;
+// a category from the file itself is kept as is
+export const categorizeImportRows = (rows: ImportRow[], rules: CategoryRule[]): ImportRow[] =>
+  rows.map((row) =>
+    row.input && row.input.category === FALLBACK_IMPORT_CATEGORY
+      ? { ...row, input: categorize(rules, row.input) }
+      : row,
+  );
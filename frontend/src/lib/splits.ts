@@ -0,0 +1,52 @@
+import { SplitLine, Transaction } from "@/data/mockData";
+import { allocate, Money, parseMoney, sum, toInputValue } from "@/lib/money";
+
+// Anything with a category that may be split: a transaction or a recurring rule's template
+type Categorized = Pick<Transaction, "category" | "amount" | "splits">;
+
+export const isSplit = <T extends Categorized>(t: T): t is T & { splits: SplitLine[] } =>
+  !!t.splits && t.splits.length > 0;
+
+// The category/amount pairs a transaction contributes to category analytics:
+// one per split line, or the transaction itself when it isn't split
+export const categoryLines = (t: Categorized): { category: string; amount: Money }[] =>
+  isSplit(t) ? t.splits : [t];
+
+export const transactionCategories = (t: Categorized): string[] =>
+  categoryLines(t).map((line) => line.category);
+
+export const splitsTotal = (splits: SplitLine[], currency: string): Money =>
+  sum(splits.map((line) => line.amount), currency);
+
+// Copy of the transaction carrying a new amount (e.g. after currency
+// conversion); split lines are rescaled so they still add up to it
+export function withAmount(t: Transaction, amount: Money): Transaction {
+  if (!isSplit(t)) return { ...t, amount };
+  const parts = allocate(amount, t.splits.map((line) => line.amount.amount));
+  return { ...t, amount, splits: t.splits.map((line, i) => ({ ...line, amount: parts[i] })) };
+}
+
+// A split line as typed into the form; the amount is still text
+export type SplitDraft = {
+  category: string;
+  amount: string;
+  memo: string;
+};
+
+export const toSplitDraft = (line: SplitLine): SplitDraft => ({
+  category: line.category,
+  amount: toInputValue(line.amount),
+  memo: line.memo ?? "",
+});
+
+// Parsed lines, or null while any line is incomplete
+export function parseSplitDrafts(drafts: SplitDraft[], currency: string): SplitLine[] | null {
+  const lines: SplitLine[] = [];
+  for (const draft of drafts) {
+    const amount = parseMoney(draft.amount, currency);
+    if (!amount || amount.amount <= 0 || draft.category === "") return null;
+    const memo = draft.memo.trim();
+    lines.push({ category: draft.category, amount, ...(memo && { memo }) });
+  }
+  return lines;
+}
@@ -0,0 +1,31 @@
+import { toast } from "@/hooks/use-toast";
+
+// IndexedDB can refuse reads and writes: storage full, private browsing, a
+// blocked version upgrade. The contexts update their state before writing, so
+// a failed write undoes that change and tells the user.
+
+export const storageFailed = (title: string) =>
+  toast({
+    title,
+    description: "The change could not be stored on this device.",
+    variant: "destructive",
+  });
+
+export const loadFailed = (what: string) =>
+  toast({
+    title: `Couldn't load ${what}`,
+    description: "Local storage is unavailable on this device.",
+    variant: "destructive",
+  });
+
+// Waits out a local write the UI already shows as done; `revert` undoes it on
+// failure. Resolves to whether the write was stored.
+export const persist = (write: Promise<unknown>, title: string, revert: () => void): Promise<boolean> =>
+  write.then(
+    () => true,
+    () => {
+      revert();
+      storageFailed(title);
+      return false;
+    },
+  );
@@ -0,0 +1,246 @@
+import { Transaction } from "@/data/mockData";
+import { ApiError, transactionAPI } from "@/services/api";
+import { STORES, getAll, getOne, promisify, put, remove, transact, update } from "@/lib/db";
+
+// Durable outbox of local changes that still have to reach /api/transactions.
+// Entries are replayed strictly in the order they were recorded.
+
+export type OutboxEntry = {
+  seq?: number;
+  op: "create" | "update" | "delete";
+  transactionId: string;
+  // Captured for deletes, since the local record is already gone by replay time
+  remoteId?: string;
+  createdAt: string;
+  // Server errors this entry has met so far; see MAX_SERVER_FAILURES
+  serverFailures?: number;
+};
+
+export type ReplayResult = {
+  // Records whose sync bookkeeping changed and should be pushed into the UI
+  changed: Transaction[];
+  // Local ids dropped because another row already stood for the same server record
+  removed: string[];
+  // Entries the server rejected outright; they are dropped from the queue
+  rejected: number;
+  // True when the replay stopped early because the server is unreachable
+  interrupted: boolean;
+};
+
+export const getOutbox = () => getAll<OutboxEntry>(STORES.outbox);
+
+export const getLocalTransactions = () => getAll<Transaction>(STORES.transactions);
+
+const queueEntry = (tx: IDBTransaction, entry: Omit<OutboxEntry, "seq" | "createdAt">) =>
+  tx.objectStore(STORES.outbox).add({ ...entry, createdAt: new Date().toISOString() });
+
+// Writes a created or edited row and its outbox entry in one transaction.
+// Sync bookkeeping always comes from the stored copy, never from the caller's
+// (possibly stale) one, so an edit can't drop a remoteId learned meanwhile.
+export const saveLocalTransaction = (transaction: Transaction, op: "create" | "update") =>
+  transact([STORES.transactions, STORES.outbox], "readwrite", async (tx) => {
+    const store = tx.objectStore(STORES.transactions);
+    const current = (await promisify(store.get(transaction.id))) as Transaction | undefined;
+    const record: Transaction = { ...transaction, remoteId: current?.remoteId, syncStatus: "pending" };
+    store.put(record);
+    queueEntry(tx, { op, transactionId: record.id });
+    return record;
+  });
+
+export const deleteLocalTransaction = (id: string) =>
+  transact([STORES.transactions, STORES.outbox], "readwrite", async (tx) => {
+    const store = tx.objectStore(STORES.transactions);
+    const current = (await promisify(store.get(id))) as Transaction | undefined;
+    queueEntry(tx, { op: "delete", transactionId: id, remoteId: current?.remoteId });
+    store.delete(id);
+  });
+
+// Network failures and 5xx responses are worth retrying later; anything else
+// (validation errors, bad ids) will fail the same way every time
+const isRetryable = (error: unknown) =>
+  !(error instanceof ApiError) || error.status >= 500 || error.status === 408 || error.status === 429;
+
+// A server error could be an outage or a change the server chokes on every
+// time. After this many the entry is given up on like a rejected one, so it
+// can't hold up the entries behind it forever. Network failures don't count:
+// they say nothing about the entry.
+const MAX_SERVER_FAILURES = 5;
+
+// Entries recorded after `seq`; during a replay these are edits made since it
+// read the queue, usually none, so this stays cheap however long the queue is
+const getOutboxSince = (seq: number) =>
+  transact([STORES.outbox], "readonly", (tx) =>
+    promisify(tx.objectStore(STORES.outbox).getAll(IDBKeyRange.lowerBound(seq, true)) as IDBRequest<OutboxEntry[]>),
+  );
+
+// What a replay knows about the queue it read: the last entry per transaction
+// and the last entry overall
+type OutboxSnapshot = { lastSeqFor: Map<string, number>; lastSeq: number };
+
+const snapshotOf = (outbox: OutboxEntry[]): OutboxSnapshot => ({
+  lastSeqFor: new Map(outbox.map((e) => [e.transactionId, e.seq ?? 0])),
+  lastSeq: outbox.length > 0 ? (outbox[outbox.length - 1].seq ?? 0) : 0,
+});
+
+// Later changes to the same row, queued before or during the replay, keep it pending
+const hasLaterEntries = async (entry: OutboxEntry, snapshot: OutboxSnapshot) =>
+  (snapshot.lastSeqFor.get(entry.transactionId) ?? 0) > (entry.seq ?? 0) ||
+  (await getOutboxSince(snapshot.lastSeq)).some((e) => e.transactionId === entry.transactionId);
+
+// Counts server ids learned this session, so a server list can tell which rows
+// were created after it was requested (and so can't be in it)
+let generation = 0;
+const learnedAt = new Map<string, number>();
+
+// Records the server id of a pushed row. A refetch that lands between the
+// server accepting a create and this write-back appends the new server row as
+// a separate local one (it has no local match yet); that copy is dropped here
+// so one remoteId never backs two local rows.
+const saveRemoteId = (id: string, remoteId: string | undefined, stillPending: boolean) =>
+  transact([STORES.transactions], "readwrite", async (tx) => {
+    const store = tx.objectStore(STORES.transactions);
+    const current = (await promisify(store.get(id))) as Transaction | undefined;
+    if (!current) return { patched: undefined, removed: [] };
+
+    const copies = remoteId
+      ? ((await promisify(store.index("remoteId").getAll(remoteId))) as Transaction[]).filter((t) => t.id !== id)
+      : [];
+    copies.forEach((t) => store.delete(t.id));
+    if (remoteId && remoteId !== current.remoteId) learnedAt.set(remoteId, ++generation);
+    const patched: Transaction = { ...current, remoteId, syncStatus: stillPending ? "pending" : "synced" };
+    store.put(patched);
+    return { patched, removed: copies.map((t) => t.id) };
+  });
+
+type PushResult = { record?: Transaction; removed?: string[] };
+
+async function pushEntry(entry: OutboxEntry, snapshot: OutboxSnapshot): Promise<PushResult> {
+  if (entry.op === "delete") {
+    if (entry.remoteId) {
+      try {
+        await transactionAPI.delete(entry.remoteId);
+      } catch (error) {
+        // Already gone on the server counts as done
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+      }
+    }
+    return {};
+  }
+
+  const record = await getOne<Transaction>(STORES.transactions, entry.transactionId);
+  if (!record) return {};
+
+  const { id, remoteId, syncStatus, ...fields } = record;
+  const saved = remoteId
+    ? await transactionAPI.update(remoteId, fields)
+    : await transactionAPI.create(fields);
+
+  const stillPending = await hasLaterEntries(entry, snapshot);
+  const { patched, removed } = await saveRemoteId(id, saved.remoteId, stillPending);
+
+  // Deleted locally while the create was in flight - undo it on the server too
+  if (!patched && !remoteId && saved.remoteId) {
+    await transactionAPI.delete(saved.remoteId);
+  }
+  return { record: patched, removed };
+}
+
+async function runReplay(): Promise<ReplayResult> {
+  const outbox = (await getOutbox()).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  const snapshot = snapshotOf(outbox);
+  const changed = new Map<string, Transaction>();
+  const removed: string[] = [];
+  let rejected = 0;
+
+  for (const entry of outbox) {
+    try {
+      const result = await pushEntry(entry, snapshot);
+      if (result.record) changed.set(result.record.id, result.record);
+      removed.push(...(result.removed ?? []));
+    } catch (error) {
+      if (isRetryable(error)) {
+        const serverFailures = (entry.serverFailures ?? 0) + (error instanceof ApiError && error.status >= 500 ? 1 : 0);
+        if (serverFailures < MAX_SERVER_FAILURES) {
+          if (serverFailures !== (entry.serverFailures ?? 0)) await put(STORES.outbox, { ...entry, serverFailures });
+          return { changed: Array.from(changed.values()), removed, rejected, interrupted: true };
+        }
+      }
+      rejected++;
+      const failed = await update<Transaction>(STORES.transactions, entry.transactionId, (current) =>
+        current && { ...current, syncStatus: "failed" },
+      );
+      if (failed) changed.set(failed.id, failed);
+    }
+    await remove(STORES.outbox, entry.seq as number);
+  }
+
+  return { changed: Array.from(changed.values()), removed, rejected, interrupted: false };
+}
+
+let replayQueue: Promise<unknown> = Promise.resolve();
+
+// Replays never overlap - a second call waits for the first, then picks up
+// whatever was queued meanwhile - so no entry is ever sent twice
+export function replayOutbox(): Promise<ReplayResult> {
+  const next = replayQueue.then(runReplay);
+  replayQueue = next.catch(() => undefined);
+  return next;
+}
+
+// A server list and the generation it was requested at
+export type RemoteTransactions = { transactions: Transaction[]; generation: number };
+
+export async function fetchRemoteTransactions(): Promise<RemoteTransactions> {
+  const requestedAt = generation;
+  return { transactions: await transactionAPI.getAll(), generation: requestedAt };
+}
+
+// Folds the server's list into the local one. Local rows with unsynced changes
+// win; synced rows follow the server, including deletions made elsewhere -
+// except rows in `newerThanList`, pushed after the list was requested.
+export function mergeRemoteTransactions(
+  local: Transaction[],
+  remote: Transaction[],
+  outbox: OutboxEntry[],
+  newerThanList: Set<string> = new Set(),
+): Transaction[] {
+  const pendingDeletes = new Set(outbox.filter((e) => e.op === "delete").map((e) => e.remoteId));
+  const remoteById = new Map(remote.map((t) => [t.remoteId, t]));
+  const seen = new Set<string>();
+
+  const merged: Transaction[] = [];
+  for (const t of local) {
+    if (!t.remoteId) {
+      merged.push(t);
+      continue;
+    }
+    seen.add(t.remoteId);
+    const server = remoteById.get(t.remoteId);
+    if (t.syncStatus !== "synced" || (!server && newerThanList.has(t.remoteId))) merged.push(t);
+    else if (server) merged.push({ ...server, id: t.id });
+  }
+
+  for (const t of remote) {
+    if (!seen.has(t.remoteId) && !pendingDeletes.has(t.remoteId)) merged.push(t);
+  }
+
+  return merged.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+// Merges a fresh server list into the local store atomically with respect to
+// local edits and returns the new local contents
+export const applyRemoteTransactions = (remote: RemoteTransactions) =>
+  transact([STORES.transactions, STORES.outbox], "readwrite", async (tx) => {
+    const store = tx.objectStore(STORES.transactions);
+    const local = (await promisify(store.getAll())) as Transaction[];
+    const outbox = (await promisify(tx.objectStore(STORES.outbox).getAll())) as OutboxEntry[];
+    const newerThanList = new Set(
+      Array.from(learnedAt).filter(([, learned]) => learned > remote.generation).map(([remoteId]) => remoteId),
+    );
+    const merged = mergeRemoteTransactions(local, remote.transactions, outbox, newerThanList);
+    // Once the server lists a row, later lists speak for it
+    remote.transactions.forEach((t) => t.remoteId && learnedAt.delete(t.remoteId));
+    store.clear();
+    merged.forEach((t) => store.put(t));
+    return merged;
+  });
@@ -0,0 +1,31 @@
+import { Transaction } from "@/data/mockData";
+
+// Free-form tags, a second dimension beside category (e.g. "vacation2025",
+// "tax-deductible"). Stored lowercase without the leading "#", with spaces as dashes.
+
+export const normalizeTag = (input: string) =>
+  input
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^\p{L}\p{N}_-]/gu, "");
+
+export const formatTag = (tag: string) => `#${tag}`;
+
+// Adds a typed tag to a list, ignoring empties and duplicates
+export function addTag(tags: string[], input: string): string[] {
+  const tag = normalizeTag(input);
+  return tag === "" || tags.includes(tag) ? tags : [...tags, tag];
+}
+
+// Every tag in use, most used first, for autocompletion and filters
+export function collectTags(transactions: Transaction[]): string[] {
+  const counts = new Map<string, number>();
+  for (const t of transactions) {
+    for (const tag of t.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts)
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .map(([tag]) => tag);
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useAccounts } from "@/context/AccountContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { useAccountBalances } from "@/hooks/use-account-balances";
+import { AccountModal } from "@/components/AccountModal";
+import { DeleteConfirmationDialog } from "@/components/DeleteConfirmationDialog";
+import { Button } from "@/components/ui/button";
+import { Account, accountTypeLabel, DEFAULT_ACCOUNT_ID } from "@/lib/accounts";
+import { add, formatMoney, zero } from "@/lib/money";
+import { Banknote, CreditCard, Landmark, LineChart, Pencil, PiggyBank, Plus, Trash2 } from "lucide-react";
+import { motion } from "framer-motion";
+
+const accountIcons = {
+  checking: Landmark,
+  savings: PiggyBank,
+  credit: CreditCard,
+  cash: Banknote,
+  investment: LineChart,
+};
+
+const Accounts = () => {
+  const { accounts, deleteAccount } = useAccounts();
+  const { baseCurrency } = usePreferences();
+  const balances = useAccountBalances();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
+
+  // Net worth across accounts - accounts without a usable rate are left out
+  const netWorth = accounts.reduce((total, account) => {
+    const inBase = balances.get(account.id)?.balanceInBase;
+    return inBase ? add(total, inBase) : total;
+  }, zero(baseCurrency));
+
+  const handleAdd = () => {
+    setSelectedAccount(null);
+    setModalOpen(true);
+  };
+
+  const handleEdit = (account: Account) => {
+    setSelectedAccount(account);
+    setModalOpen(true);
+  };
+
+  const handleDeleteClick = (account: Account) => {
+    setSelectedAccount(account);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (selectedAccount) {
+      deleteAccount(selectedAccount.id);
+    }
+    setSelectedAccount(null);
+  };
+
+  return (
+    <div className="space-y-8 p-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Accounts</h1>
+          <p className="text-muted-foreground">
+            Net worth: <span className="font-semibold text-foreground">{formatMoney(netWorth)}</span>
+          </p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Account
+        </Button>
+      </div>
+
+      {/* Account Cards */}
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {accounts.map((account, index) => {
+          const Icon = accountIcons[account.type];
+          const info = balances.get(account.id);
+          const isForeign = account.openingBalance.currency !== baseCurrency;
+          // Accounts that still own transactions (or the default account) can't be removed
+          const canDelete = account.id !== DEFAULT_ACCOUNT_ID && (info?.transactionCount ?? 0) === 0;
+
+          return (
+            <motion.div
+              key={account.id}
+              className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-xl gradient-primary flex items-center justify-center">
+                    <Icon className="h-5 w-5 text-white" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold">{account.name}</h3>
+                    <p className="text-sm text-muted-foreground">{accountTypeLabel(account.type)}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                    onClick={() => handleEdit(account)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDeleteClick(account)}
+                    disabled={!canDelete}
+                    title={canDelete ? "Delete account" : "Only empty accounts can be deleted"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {info && (
+                <div className="mt-6">
+                  <p className={`text-2xl font-bold ${info.balance.amount >= 0 ? "text-success" : "text-destructive"}`}>
+                    {formatMoney(info.balance)}
+                  </p>
+                  {isForeign && (
+                    <p className="text-sm text-muted-foreground">
+                      {info.balanceInBase ? `≈ ${formatMoney(info.balanceInBase)}` : "No exchange rate"}
+                    </p>
+                  )}
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {info.transactionCount} transaction{info.transactionCount === 1 ? "" : "s"}
+                    {info.missingRates > 0 && ` · ${info.missingRates} without exchange rate`}
+                  </p>
+                </div>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+
+      <AccountModal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setSelectedAccount(null);
+        }}
+        account={selectedAccount}
+      />
+
+      <DeleteConfirmationDialog
+        open={deleteDialogOpen}
+        onClose={() => {
+          setDeleteDialogOpen(false);
+          setSelectedAccount(null);
+        }}
+        onConfirm={handleDeleteConfirm}
+        transactionDescription={selectedAccount?.name}
+        itemType="account"
+      />
+    </div>
+  );
+};
+
+export default Accounts;
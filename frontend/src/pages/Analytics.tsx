@@ -1,19 +1,67 @@
+import { useState } from "react";
 import { useTransactions } from "@/context/TransactionContext";
+import { useCategories } from "@/context/CategoryContext";
+import { usePayees } from "@/context/PayeeContext";
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, LineChart, Line } from "recharts";
 import { motion } from "framer-motion";
-import { TrendingUp, TrendingDown, AlertCircle, DollarSign } from "lucide-react";
-import { categoryStats, monthlyData, summary } from "@/data/mockData";
+import { TrendingUp, TrendingDown, AlertCircle, DollarSign, ChevronDown, ChevronRight } from "lucide-react";
+import { selectExpenseCategoryStats, selectExpenseTagStats, selectMonthlyData, selectSummary } from "@/lib/analytics";
+import { CategoryStats, MonthlyData } from "@/data/mockData";
+import { formatMoney, fromMajor, toMajor, zero } from "@/lib/money";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { MissingRatesNotice } from "@/components/MissingRatesNotice";
+import { Progress } from "@/components/ui/progress";
+import { labelCategoryStats, rollUpCategoryStats } from "@/lib/categories";
+import { formatTag } from "@/lib/tags";
+import { selectExpensePayeeStats } from "@/lib/payees";
 
-const COLORS = ["#8b5cf6", "#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#ec4899", "#06b6d4"];
+const TOP_PAYEES = 10;
 
 const Analytics = () => {
   const { transactions } = useTransactions();
+  const { getCategory } = useCategories();
+  const { payees } = usePayees();
+  // Parent categories whose subcategories are shown in the pie and breakdown
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const converter = useBaseCurrency();
+  const { base } = converter;
+  const { converted, missing } = converter.convertTransactions(transactions);
+
+  const summary = selectSummary(converted, base);
+  const categoryStats = labelCategoryStats(
+    rollUpCategoryStats(selectExpenseCategoryStats(converted, base), getCategory),
+    getCategory,
+  );
+  const monthlyData = selectMonthlyData(converted, base);
+  const tagStats = selectExpenseTagStats(converted, base);
+  const payeeStats = selectExpensePayeeStats(converted, payees, base).slice(0, TOP_PAYEES);
 
-  // Using mock data for consistent analytics display
   const totalIncome = summary.totalIncome;
   const totalExpenses = summary.totalExpenses;
   const balance = summary.currentBalance;
   const savingsRate = summary.savingsRate;
+  const largestExpense = categoryStats[0];
+
+  const toggleExpanded = (id: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  // A parent's own transactions show up next to its subcategories once expanded
+  const childrenOf = (group: (typeof categoryStats)[number]) =>
+    labelCategoryStats(group.children, getCategory).map((child) => ({
+      ...child,
+      name: child.category === group.category ? `${child.name} (general)` : child.name,
+    }));
+
+  const pieData = categoryStats.flatMap((group) =>
+    expanded.has(group.category) && group.children.length > 0
+      ? childrenOf(group).map((child) => ({ ...child, group: group.category }))
+      : [{ ...group, group: group.category }],
+  );
 
   // Financial insights for learning
   const insights = [
@@ -23,31 +71,31 @@ const Analytics = () => {
       description: "Of your income is saved",
       icon: TrendingUp,
       color: "text-green-600",
-      trend: "Great job!"
+      trend: savingsRate >= 20 ? "Great job!" : "Room to improve"
     },
     {
       title: "Largest Expense",
-      value: "Rent",
-      description: `$${categoryStats[0].amount.toLocaleString()}`,
+      value: largestExpense?.name ?? "None",
+      description: formatMoney(largestExpense?.amount ?? zero(base)),
       icon: TrendingDown,
       color: "text-red-600",
-      trend: "35% of expenses"
+      trend: `${largestExpense?.percentage ?? 0}% of expenses`
     },
     {
       title: "Income Sources",
-      value: "3",
+      value: summary.incomeSources.toString(),
       description: "Different income streams",
       icon: DollarSign,
       color: "text-blue-600",
-      trend: "Diversified"
+      trend: summary.incomeSources > 1 ? "Diversified" : "Single source"
     },
     {
       title: "Monthly Average",
-      value: `$${summary.avgExpensesPerMonth.toLocaleString()}`,
+      value: formatMoney(summary.avgExpensesPerMonth),
       description: "Average monthly expenses",
       icon: AlertCircle,
       color: "text-yellow-600",
-      trend: "Under budget"
+      trend: summary.avgExpensesPerMonth.amount <= summary.avgIncomePerMonth.amount ? "Within income" : "Above income"
     }
   ];
 
@@ -61,6 +109,8 @@ const Analytics = () => {
         </p>
       </div>
 
+      <MissingRatesNotice count={missing} />
+
       {/* Key Insights */}
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
         {insights.map((insight, index) => (
@@ -93,22 +143,28 @@ const Analytics = () => {
           animate={{ opacity: 1, x: 0 }}
           transition={{ delay: 0.2 }}
         >
-          <h3 className="text-lg font-semibold mb-4">Expenses by Category</h3>
+          <h3 className="text-lg font-semibold">Expenses by Category</h3>
+          <p className="text-sm text-muted-foreground mb-4">Click a category with subcategories to expand it</p>
           <ResponsiveContainer width="100%" height={300}>
             <PieChart>
               <Pie
-                data={categoryStats}
+                data={pieData}
                 cx="50%"
                 cy="50%"
                 outerRadius={80}
-                dataKey="amount"
+                dataKey={(entry: CategoryStats) => toMajor(entry.amount)}
+                nameKey="name"
                 label={({ name, percentage }) => `${name} ${percentage}%`}
+                onClick={(_, index) => {
+                  const { group } = pieData[index];
+                  if (categoryStats.some((g) => g.category === group && g.children.length > 0)) toggleExpanded(group);
+                }}
               >
-                {categoryStats.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={entry.color} />
+                {pieData.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={entry.color} className="cursor-pointer" />
                 ))}
               </Pie>
-              <Tooltip formatter={(value) => [`$${value}`, "Amount"]} />
+              <Tooltip formatter={(value) => [formatMoney(fromMajor(Number(value), base)), "Amount"]} />
             </PieChart>
           </ResponsiveContainer>
         </motion.div>
@@ -125,11 +181,11 @@ const Analytics = () => {
             <LineChart data={monthlyData}>
               <XAxis dataKey="month" />
               <YAxis />
-              <Tooltip formatter={(value) => [`$${value}`, ""]} />
+              <Tooltip formatter={(value) => [formatMoney(fromMajor(Number(value), base)), ""]} />
               <Legend />
-              <Line type="monotone" dataKey="income" stroke="#10b981" strokeWidth={2} name="Income" />
-              <Line type="monotone" dataKey="expenses" stroke="#ef4444" strokeWidth={2} name="Expenses" />
-              <Line type="monotone" dataKey="balance" stroke="#3b82f6" strokeWidth={2} name="Balance" />
+              <Line type="monotone" dataKey={(d: MonthlyData) => toMajor(d.income)} stroke="#10b981" strokeWidth={2} name="Income" />
+              <Line type="monotone" dataKey={(d: MonthlyData) => toMajor(d.expenses)} stroke="#ef4444" strokeWidth={2} name="Expenses" />
+              <Line type="monotone" dataKey={(d: MonthlyData) => toMajor(d.balance)} stroke="#3b82f6" strokeWidth={2} name="Balance" />
             </LineChart>
           </ResponsiveContainer>
         </motion.div>
@@ -147,10 +203,10 @@ const Analytics = () => {
           <BarChart data={monthlyData}>
             <XAxis dataKey="month" />
             <YAxis />
-            <Tooltip formatter={(value) => [`$${value}`, ""]} />
+            <Tooltip formatter={(value) => [formatMoney(fromMajor(Number(value), base)), ""]} />
             <Legend />
-            <Bar dataKey="income" fill="#10b981" name="Income" />
-            <Bar dataKey="expenses" fill="#ef4444" name="Expenses" />
+            <Bar dataKey={(d: MonthlyData) => toMajor(d.income)} fill="#10b981" name="Income" />
+            <Bar dataKey={(d: MonthlyData) => toMajor(d.expenses)} fill="#ef4444" name="Expenses" />
           </BarChart>
         </ResponsiveContainer>
       </motion.div>
@@ -164,24 +220,131 @@ const Analytics = () => {
       >
         <h3 className="text-lg font-semibold mb-4">Category Breakdown</h3>
         <div className="space-y-4">
-          {categoryStats.map((category, index) => (
-            <div key={category.category} className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <div 
-                  className="w-4 h-4 rounded"
-                  style={{ backgroundColor: category.color }}
-                />
-                <span className="font-medium">{category.category}</span>
-              </div>
-              <div className="flex items-center space-x-4">
-                <span className="text-muted-foreground">{category.percentage}%</span>
-                <span className="font-bold">${category.amount.toLocaleString()}</span>
+          {categoryStats.map((category) => {
+            const isOpen = expanded.has(category.category);
+            return (
+              <div key={category.category} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    {category.children.length > 0 ? (
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-foreground"
+                        aria-label={isOpen ? "Collapse" : "Expand"}
+                        onClick={() => toggleExpanded(category.category)}
+                      >
+                        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                    ) : (
+                      <span className="w-4" />
+                    )}
+                    <div
+                      className="w-4 h-4 rounded"
+                      style={{ backgroundColor: category.color }}
+                    />
+                    <span className="font-medium">{category.name}</span>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className="text-muted-foreground">{category.percentage}%</span>
+                    <span className="font-bold">{formatMoney(category.amount)}</span>
+                  </div>
+                </div>
+                {isOpen &&
+                  childrenOf(category).map((child) => (
+                    <div key={child.category} className="flex items-center justify-between pl-14 text-sm">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-3 h-3 rounded" style={{ backgroundColor: child.color }} />
+                        <span>{child.name}</span>
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        <span className="text-muted-foreground">{child.percentage}%</span>
+                        <span className="font-medium">{formatMoney(child.amount)}</span>
+                      </div>
+                    </div>
+                  ))}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </motion.div>
 
+      {/* Spending by Tag */}
+      <motion.div
+        className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.55 }}
+      >
+        <h3 className="text-lg font-semibold">Spending by Tag</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          A transaction counts in full under each of its tags, so tags can overlap
+        </p>
+        {tagStats.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tagged expenses yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {tagStats.map((entry) => (
+              <div key={entry.tag} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-baseline space-x-2">
+                    <span className="font-medium">{formatTag(entry.tag)}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {entry.count} transaction{entry.count === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className="text-muted-foreground">{entry.percentage}%</span>
+                    <span className="font-bold">{formatMoney(entry.amount)}</span>
+                  </div>
+                </div>
+                <Progress value={entry.percentage} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+
+      {/* Payee Leaderboard */}
+      <motion.div
+        className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.58 }}
+      >
+        <h3 className="text-lg font-semibold">Top Payees</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Where the money goes, by merchant. Set up payees and their aliases in Settings.
+        </p>
+        {payeeStats.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No expenses with a payee yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 px-2 font-medium text-muted-foreground">#</th>
+                  <th className="text-left py-2 px-2 font-medium text-muted-foreground">Payee</th>
+                  <th className="text-right py-2 px-2 font-medium text-muted-foreground">Transactions</th>
+                  <th className="text-right py-2 px-2 font-medium text-muted-foreground">Average</th>
+                  <th className="text-right py-2 px-2 font-medium text-muted-foreground">Total Spend</th>
+                </tr>
+              </thead>
+              <tbody>
+                {payeeStats.map((entry, index) => (
+                  <tr key={entry.payee.id} className="border-b last:border-0">
+                    <td className="py-2 px-2 text-muted-foreground">{index + 1}</td>
+                    <td className="py-2 px-2 font-medium">{entry.payee.name}</td>
+                    <td className="py-2 px-2 text-right">{entry.count}</td>
+                    <td className="py-2 px-2 text-right text-muted-foreground">{formatMoney(entry.average)}</td>
+                    <td className="py-2 px-2 text-right font-bold">{formatMoney(entry.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+
       {/* Summary Cards */}
       <div className="grid gap-6 md:grid-cols-3">
         <motion.div
@@ -191,9 +354,9 @@ const Analytics = () => {
           transition={{ delay: 0.6 }}
         >
           <h4 className="font-semibold text-green-600">Total Income</h4>
-          <p className="text-3xl font-bold mt-2">${totalIncome.toLocaleString()}</p>
+          <p className="text-3xl font-bold mt-2">{formatMoney(totalIncome)}</p>
           <p className="text-sm text-muted-foreground mt-1">
-            Average: ${summary.avgIncomePerMonth.toLocaleString()}/month
+            Average: {formatMoney(summary.avgIncomePerMonth)}/month
           </p>
         </motion.div>
         
@@ -204,9 +367,9 @@ const Analytics = () => {
           transition={{ delay: 0.7 }}
         >
           <h4 className="font-semibold text-red-600">Total Expenses</h4>
-          <p className="text-3xl font-bold mt-2">${totalExpenses.toLocaleString()}</p>
+          <p className="text-3xl font-bold mt-2">{formatMoney(totalExpenses)}</p>
           <p className="text-sm text-muted-foreground mt-1">
-            Average: ${summary.avgExpensesPerMonth.toLocaleString()}/month
+            Average: {formatMoney(summary.avgExpensesPerMonth)}/month
           </p>
         </motion.div>
         
@@ -217,7 +380,7 @@ const Analytics = () => {
           transition={{ delay: 0.8 }}
         >
           <h4 className="font-semibold text-blue-600">Net Balance</h4>
-          <p className="text-3xl font-bold mt-2">${balance.toLocaleString()}</p>
+          <p className="text-3xl font-bold mt-2">{formatMoney(balance)}</p>
           <p className="text-sm text-muted-foreground mt-1">
             {summary.transactionCount} total transactions
           </p>
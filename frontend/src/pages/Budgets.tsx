@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useBudgets } from "@/context/BudgetContext";
+import { useCategories } from "@/context/CategoryContext";
+import { BudgetModal } from "@/components/BudgetModal";
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { DeleteConfirmationDialog } from "@/components/DeleteConfirmationDialog";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { Button } from "@/components/ui/button";
+import { Budget } from "@/lib/budgets";
+import { abs, formatMoney } from "@/lib/money";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { motion } from "framer-motion";
+
+const Budgets = () => {
+  const { statuses, deleteBudget } = useBudgets();
+  const { getCategory } = useCategories();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedBudget, setSelectedBudget] = useState<Budget | null>(null);
+
+  const sortedStatuses = [...statuses].sort((a, b) => b.percentUsed - a.percentUsed);
+
+  const handleAdd = () => {
+    setSelectedBudget(null);
+    setModalOpen(true);
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setSelectedBudget(budget);
+    setModalOpen(true);
+  };
+
+  const handleDeleteClick = (budget: Budget) => {
+    setSelectedBudget(budget);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (selectedBudget) {
+      deleteBudget(selectedBudget.id);
+    }
+    setSelectedBudget(null);
+  };
+
+  return (
+    <div className="space-y-8 p-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Budgets</h1>
+          <p className="text-muted-foreground">
+            Monthly spending limits for {format(new Date(), "MMMM yyyy")}
+          </p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Budget
+        </Button>
+      </div>
+
+      {sortedStatuses.length === 0 ? (
+        <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6 text-center">
+          <p className="text-muted-foreground py-8">
+            No budgets yet. Add a monthly limit for an expense category to track your spending.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {sortedStatuses.map((status, index) => {
+            const { budget, spent, remaining, percentUsed, state, missingRates } = status;
+            return (
+              <motion.div
+                key={budget.id}
+                className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <div className="flex items-start justify-between">
+                  <h3 className="font-semibold">
+                    <CategoryLabel id={budget.category} />
+                  </h3>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                      onClick={() => handleEdit(budget)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDeleteClick(budget)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="mt-4 space-y-2">
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-2xl font-bold">{formatMoney(spent)}</span>
+                    <span className="text-sm text-muted-foreground">of {formatMoney(budget.limit)}</span>
+                  </div>
+                  <BudgetProgress status={status} />
+                  <div className="flex justify-between text-sm">
+                    <span className={state === "over" ? "text-destructive" : "text-muted-foreground"}>
+                      {state === "over"
+                        ? `${formatMoney(abs(remaining))} over`
+                        : `${formatMoney(remaining)} remaining`}
+                    </span>
+                    <span className={state === "ok" ? "text-muted-foreground" : "font-medium"}>{percentUsed}%</span>
+                  </div>
+                  {missingRates > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {missingRates} expense{missingRates === 1 ? "" : "s"} left out for lack of an exchange rate
+                    </p>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      <BudgetModal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setSelectedBudget(null);
+        }}
+        budget={selectedBudget}
+      />
+
+      <DeleteConfirmationDialog
+        open={deleteDialogOpen}
+        onClose={() => {
+          setDeleteDialogOpen(false);
+          setSelectedBudget(null);
+        }}
+        onConfirm={handleDeleteConfirm}
+        transactionDescription={selectedBudget ? getCategory(selectedBudget.category).name : undefined}
+        itemType="budget"
+      />
+    </div>
+  );
+};
+
+export default Budgets;
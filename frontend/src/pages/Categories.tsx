@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import { useCategories } from "@/context/CategoryContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { CategoryModal } from "@/components/CategoryModal";
+import { MergeCategoryDialog } from "@/components/MergeCategoryDialog";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Category, CATEGORY_KINDS, categoryTree } from "@/lib/categories";
+import { transactionCategories } from "@/lib/splits";
+import { Archive, ArchiveRestore, GitMerge, Pencil, Plus } from "lucide-react";
+import { motion } from "framer-motion";
+
+const kindLabel = (category: Category) => CATEGORY_KINDS.find((k) => k.value === category.kind)?.label;
+
+const Categories = () => {
+  const { categories, updateCategory } = useCategories();
+  const { transactions } = useTransactions();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+
+  // Transactions per category id, counting each split line's category
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const t of transactions) {
+      for (const id of new Set(transactionCategories(t))) counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return counts;
+  }, [transactions]);
+
+  // Active categories first, each parent followed by its subcategories
+  const rows = categoryTree([...categories].sort((a, b) => Number(a.archived) - Number(b.archived))).flatMap(
+    ({ category, children }) => [category, ...children],
+  );
+
+  const handleAdd = () => {
+    setSelectedCategory(null);
+    setModalOpen(true);
+  };
+
+  const handleEdit = (category: Category) => {
+    setSelectedCategory(category);
+    setModalOpen(true);
+  };
+
+  const handleMerge = (category: Category) => {
+    setSelectedCategory(category);
+    setMergeOpen(true);
+  };
+
+  return (
+    <div className="space-y-8 p-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Categories</h1>
+          <p className="text-muted-foreground">
+            Organise income and expenses; archived categories stay on past transactions
+          </p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Category
+        </Button>
+      </div>
+
+      {/* Categories Table */}
+      <motion.div
+        className="rounded-lg border bg-card text-card-foreground shadow-sm"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <div className="p-6">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Category</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Used For</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Transactions</th>
+                  <th className="text-center py-3 px-4 font-medium text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((category, index) => (
+                  <motion.tr
+                    key={category.id}
+                    className="border-b hover:bg-accent/50 transition-colors"
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: index * 0.03 }}
+                  >
+                    <td className="py-3 px-4 font-medium">
+                      <div className={`flex items-center gap-2 ${category.parentId ? "pl-6" : ""}`}>
+                        <CategoryLabel id={category.id} className={category.archived ? "text-muted-foreground" : undefined} />
+                        {category.archived && <Badge variant="secondary">Archived</Badge>}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-muted-foreground">{kindLabel(category)}</td>
+                    <td className="py-3 px-4 text-right text-sm">{usage.get(category.id) ?? 0}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-center space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                          title="Edit"
+                          onClick={() => handleEdit(category)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                          title={category.archived ? "Restore" : "Archive"}
+                          onClick={() => updateCategory({ ...category, archived: !category.archived })}
+                        >
+                          {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                          title="Merge into another category"
+                          onClick={() => handleMerge(category)}
+                        >
+                          <GitMerge className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </motion.tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </motion.div>
+
+      <CategoryModal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setSelectedCategory(null);
+        }}
+        category={selectedCategory}
+      />
+
+      <MergeCategoryDialog
+        open={mergeOpen}
+        onClose={() => {
+          setMergeOpen(false);
+          setSelectedCategory(null);
+        }}
+        category={selectedCategory}
+        usage={selectedCategory ? usage.get(selectedCategory.id) ?? 0 : 0}
+      />
+    </div>
+  );
+};
+
+export default Categories;
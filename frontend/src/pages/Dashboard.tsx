@@ -1,24 +1,54 @@
 import { useState } from "react";
 import { useTransactions } from "@/context/TransactionContext";
+import { useAttachments } from "@/context/AttachmentContext";
+import { useCategories } from "@/context/CategoryContext";
 import { StatCard } from "@/components/StatCard";
 import { Button } from "@/components/ui/button";
 import { TransactionModal } from "@/components/TransactionModal";
 import { DeleteConfirmationDialog } from "@/components/DeleteConfirmationDialog";
-import { DollarSign, TrendingUp, TrendingDown, Pencil, Trash2 } from "lucide-react";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
+import { TransactionAmount } from "@/components/TransactionAmount";
+import { BudgetStatusWidget } from "@/components/BudgetStatusWidget";
+import { GoalsCard } from "@/components/GoalsCard";
+import { MissingRatesNotice } from "@/components/MissingRatesNotice";
+import { CategoryList } from "@/components/CategoryLabel";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { DollarSign, TrendingUp, TrendingDown, Pencil, Trash2, Paperclip } from "lucide-react";
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend } from "recharts";
 import { motion } from "framer-motion";
-import { categoryStats, monthlyData, summary, Transaction } from "@/data/mockData";
+import { CategoryStats, MonthlyData, Transaction } from "@/data/mockData";
+import { formatMoney, fromMajor, toMajor } from "@/lib/money";
+import { transactionCategories } from "@/lib/splits";
+import { labelCategoryStats, rollUpCategoryStats } from "@/lib/categories";
+import {
+  selectExpenseCategoryStats,
+  selectMonthlyData,
+  selectMonthOverMonth,
+  selectTotals,
+} from "@/lib/analytics";
 
 const Dashboard = () => {
-  const { transactions } = useTransactions();
+  const { transactions, isLoading, deleteTransaction } = useTransactions();
+  const { attachmentsFor, deleteAttachmentsFor } = useAttachments();
+  const { getCategory } = useCategories();
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
 
-  // Using static calculations from mock data for learning
-  const totalIncome = summary.totalIncome;
-  const totalExpenses = summary.totalExpenses;
-  const balance = summary.currentBalance;
+  const converter = useBaseCurrency();
+  const { base } = converter;
+  const { converted, missing } = converter.convertTransactions(transactions);
+
+  const { income: totalIncome, expenses: totalExpenses, balance } = selectTotals(converted, base);
+  const categoryStats = labelCategoryStats(
+    rollUpCategoryStats(selectExpenseCategoryStats(converted, base), getCategory),
+    getCategory,
+  );
+  const monthlyData = selectMonthlyData(converted, base);
+  const monthOverMonth = selectMonthOverMonth(converted, base);
+
+  const describeChange = (change: number | null | undefined) =>
+    change == null ? "No previous month" : `${Math.abs(change)}% ${change >= 0 ? "increase" : "decrease"}`;
 
   // Recent transactions for display (first 5)
   const recentTransactions = transactions.slice(0, 5);
@@ -34,8 +64,10 @@ const Dashboard = () => {
   };
 
   const handleDeleteConfirm = () => {
-    // TODO: Implement delete functionality
-    console.log('Deleting transaction:', selectedTransaction?.id);
+    if (selectedTransaction) {
+      deleteTransaction(selectedTransaction.id);
+      deleteAttachmentsFor(selectedTransaction.id);
+    }
     setSelectedTransaction(null);
   };
 
@@ -54,6 +86,8 @@ const Dashboard = () => {
         </p>
       </div>
 
+      <MissingRatesNotice count={missing} />
+
       {/* Stats Cards */}
       <div className="grid gap-6 md:grid-cols-3">
         <motion.div
@@ -63,9 +97,9 @@ const Dashboard = () => {
         >
           <StatCard
             title="Total Balance"
-            value={`$${balance.toLocaleString()}`}
+            value={balance}
             icon={DollarSign}
-            trend="Looking good!"
+            trend={balance.amount >= 0 ? "Looking good!" : "Spending exceeds income"}
             variant="success"
           />
         </motion.div>
@@ -76,9 +110,9 @@ const Dashboard = () => {
         >
           <StatCard
             title="Total Income"
-            value={`$${totalIncome.toLocaleString()}`}
+            value={totalIncome}
             icon={TrendingUp}
-            trend="8.2% increase"
+            trend={describeChange(monthOverMonth?.income)}
             variant="success"
           />
         </motion.div>
@@ -89,9 +123,9 @@ const Dashboard = () => {
         >
           <StatCard
             title="Total Expenses"
-            value={`$${totalExpenses.toLocaleString()}`}
+            value={totalExpenses}
             icon={TrendingDown}
-            trend="3.1% decrease"
+            trend={describeChange(monthOverMonth?.expenses)}
             variant="default"
           />
         </motion.div>
@@ -115,14 +149,15 @@ const Dashboard = () => {
                 cy="50%"
                 outerRadius={80}
                 fill="#8884d8"
-                dataKey="amount"
+                dataKey={(entry: CategoryStats) => toMajor(entry.amount)}
+                nameKey="name"
                 label={({ name, percentage }) => `${name} (${percentage}%)`}
               >
                 {categoryStats.map((entry, index) => (
                   <Cell key={`cell-${index}`} fill={entry.color} />
                 ))}
               </Pie>
-              <Tooltip formatter={(value) => [`$${value}`, "Amount"]} />
+              <Tooltip formatter={(value) => [formatMoney(fromMajor(Number(value), base)), "Amount"]} />
             </PieChart>
           </ResponsiveContainer>
         </motion.div>
@@ -139,15 +174,21 @@ const Dashboard = () => {
             <BarChart data={monthlyData}>
               <XAxis dataKey="month" />
               <YAxis />
-              <Tooltip formatter={(value) => [`$${value}`, ""]} />
+              <Tooltip formatter={(value) => [formatMoney(fromMajor(Number(value), base)), ""]} />
               <Legend />
-              <Bar dataKey="income" fill="#10b981" name="Income" />
-              <Bar dataKey="expenses" fill="#ef4444" name="Expenses" />
+              <Bar dataKey={(d: MonthlyData) => toMajor(d.income)} fill="#10b981" name="Income" />
+              <Bar dataKey={(d: MonthlyData) => toMajor(d.expenses)} fill="#ef4444" name="Expenses" />
             </BarChart>
           </ResponsiveContainer>
         </motion.div>
       </div>
 
+      {/* Budget Status */}
+      <BudgetStatusWidget delay={0.55} />
+
+      {/* Goals */}
+      <GoalsCard delay={0.58} />
+
       {/* Recent Transactions */}
       <motion.div
         className="rounded-lg border bg-card text-card-foreground shadow-sm"
@@ -157,6 +198,9 @@ const Dashboard = () => {
       >
         <div className="p-6">
           <h3 className="text-lg font-semibold mb-4">Recent Transactions</h3>
+          {isLoading && (
+            <p className="text-center py-8 text-muted-foreground">Loading transactions...</p>
+          )}
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead>
@@ -185,17 +229,19 @@ const Dashboard = () => {
                       })}
                     </td>
                     <td className="py-3 px-4 font-medium">
-                      {transaction.description}
+                      <div className="flex items-center gap-2">
+                        {transaction.description}
+                        {attachmentsFor(transaction.id).length > 0 && (
+                          <Paperclip className="h-3.5 w-3.5 text-muted-foreground" aria-label="Has attachments" />
+                        )}
+                        <SyncStatusBadge status={transaction.syncStatus} />
+                      </div>
                     </td>
                     <td className="py-3 px-4 text-sm">
-                      {transaction.category}
+                      <CategoryList ids={transactionCategories(transaction)} />
                     </td>
                     <td className="py-3 px-4 text-right">
-                      <span className={`font-semibold ${
-                        transaction.type === "income" ? "text-green-600" : "text-red-600"
-                      }`}>
-                        {transaction.type === "income" ? "+" : "-"}${transaction.amount.toLocaleString()}
-                      </span>
+                      <TransactionAmount transaction={transaction} />
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center justify-center space-x-2">
@@ -0,0 +1,155 @@
+import { useMemo } from "react";
+import { useTransactions } from "@/context/TransactionContext";
+import { useAttachments } from "@/context/AttachmentContext";
+import { useAccounts } from "@/context/AccountContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { useDismissedDuplicates } from "@/hooks/use-dismissed-duplicates";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryList } from "@/components/CategoryLabel";
+import { TransactionAmount } from "@/components/TransactionAmount";
+import { Transaction } from "@/data/mockData";
+import { DUPLICATE_WINDOWS, findDuplicatePairs, mergeDuplicate } from "@/lib/duplicates";
+import { transactionCategories } from "@/lib/splits";
+import { formatTag } from "@/lib/tags";
+import { Check, Paperclip, X } from "lucide-react";
+import { motion } from "framer-motion";
+
+// Scans the whole history for likely duplicate pairs. Keeping one side merges
+// the other into it; dismissing a pair stops it from being flagged again.
+const Duplicates = () => {
+  const { transactions, updateTransaction, deleteTransaction } = useTransactions();
+  const { attachmentsFor, moveAttachments } = useAttachments();
+  const { accounts } = useAccounts();
+  const { duplicateWindowDays, setPreference } = usePreferences();
+  const { dismissed, dismiss } = useDismissedDuplicates();
+
+  const pairs = useMemo(
+    () => findDuplicatePairs(transactions, duplicateWindowDays, dismissed),
+    [transactions, duplicateWindowDays, dismissed],
+  );
+
+  const accountName = (id: string) => accounts.find((a) => a.id === id)?.name ?? "Unknown account";
+
+  // A transaction can appear in several pairs; once merged away, those pairs
+  // disappear with it on the next scan
+  const handleKeep = (keep: Transaction, remove: Transaction) => {
+    updateTransaction(mergeDuplicate(keep, remove));
+    moveAttachments(remove.id, keep.id);
+    deleteTransaction(remove.id);
+    toast({
+      title: "Duplicates merged",
+      description: `Kept "${keep.description || "Untitled"}" from ${keep.date}.`,
+    });
+  };
+
+  const renderSide = (side: Transaction, other: Transaction) => {
+    const attachmentCount = attachmentsFor(side.id).length;
+    return (
+      <div className="flex flex-1 flex-col justify-between gap-3 rounded-md border p-4">
+        <div className="space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium">{side.description || "Untitled"}</p>
+            <TransactionAmount transaction={side} />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {new Date(side.date).toLocaleDateString("en-US", { year: "numeric", month: "2-digit", day: "2-digit" })}
+            {" · "}
+            {accountName(side.accountId)}
+          </p>
+          <div className="text-sm text-muted-foreground">
+            <CategoryList ids={transactionCategories(side)} />
+          </div>
+          {(side.tags ?? []).length > 0 && (
+            <p className="text-sm text-muted-foreground">{(side.tags ?? []).map(formatTag).join(" ")}</p>
+          )}
+          <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+            {side.importId && <span>From a bank file</span>}
+            {side.recurringRuleId && <span>Recurring</span>}
+            {attachmentCount > 0 && (
+              <span className="inline-flex items-center gap-1">
+                <Paperclip className="h-3 w-3" />
+                {attachmentCount}
+              </span>
+            )}
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => handleKeep(side, other)}>
+          <Check className="h-4 w-4 mr-2" />
+          Keep this one
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-8 p-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Duplicates</h1>
+          <p className="text-muted-foreground">
+            Same amount, similar description, dates close together
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="duplicate-window" className="text-sm text-muted-foreground">
+            Within
+          </Label>
+          <Select
+            value={duplicateWindowDays.toString()}
+            onValueChange={(value) => setPreference("duplicateWindowDays", Number(value))}
+          >
+            <SelectTrigger id="duplicate-window" className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DUPLICATE_WINDOWS.map((days) => (
+                <SelectItem key={days} value={days.toString()}>
+                  {days} day{days === 1 ? "" : "s"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {pairs.length === 0 ? (
+        <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6 text-center">
+          <p className="text-muted-foreground py-8">No likely duplicates found.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {pairs.length} possible duplicate{pairs.length === 1 ? "" : "s"}. Keeping one merges the other into it:
+            tags, attachments and the bank reference carry over.
+          </p>
+          {pairs.map((pair, index) => (
+            <motion.div
+              key={pair.id}
+              className="rounded-lg border bg-card text-card-foreground shadow-sm p-4 space-y-3"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: Math.min(index, 10) * 0.05 }}
+            >
+              <div className="flex flex-col gap-3 md:flex-row">
+                {renderSide(pair.first, pair.second)}
+                {renderSide(pair.second, pair.first)}
+              </div>
+              <div className="flex justify-end">
+                <Button variant="ghost" size="sm" onClick={() => dismiss(pair.id)}>
+                  <X className="h-4 w-4 mr-2" />
+                  Not duplicates
+                </Button>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Duplicates;
@@ -0,0 +1,240 @@
+import { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useGoals } from "@/context/GoalContext";
+import { useTransactions } from "@/context/TransactionContext";
+import { useCategories } from "@/context/CategoryContext";
+import { GoalModal } from "@/components/GoalModal";
+import { ContributionModal } from "@/components/ContributionModal";
+import { DeleteConfirmationDialog } from "@/components/DeleteConfirmationDialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Goal, computeGoalProgress, daysUntil } from "@/lib/goals";
+import { formatMoney } from "@/lib/money";
+import { Link2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { motion } from "framer-motion";
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+const Goals = () => {
+  const { goals, contributions, deleteGoal, deleteContribution } = useGoals();
+  const { transactions } = useTransactions();
+  const { getCategory } = useCategories();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [contributionOpen, setContributionOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null);
+
+  const descriptions = useMemo(
+    () => new Map(transactions.map((t) => [t.id, t.description || getCategory(t.category).name])),
+    [transactions, getCategory],
+  );
+
+  const handleAdd = () => {
+    setSelectedGoal(null);
+    setModalOpen(true);
+  };
+
+  const handleEdit = (goal: Goal) => {
+    setSelectedGoal(goal);
+    setModalOpen(true);
+  };
+
+  const handleContribute = (goal: Goal) => {
+    setSelectedGoal(goal);
+    setContributionOpen(true);
+  };
+
+  const handleDeleteClick = (goal: Goal) => {
+    setSelectedGoal(goal);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (selectedGoal) {
+      deleteGoal(selectedGoal.id);
+    }
+    setSelectedGoal(null);
+  };
+
+  return (
+    <div className="space-y-8 p-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Goals</h1>
+          <p className="text-muted-foreground">Save towards targets and see when you'll reach them</p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Goal
+        </Button>
+      </div>
+
+      {goals.length === 0 ? (
+        <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6 text-center">
+          <p className="text-muted-foreground py-8">
+            No goals yet. Add a savings target and log contributions as you put money aside.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2">
+          {goals.map((goal, index) => {
+            const { saved, remaining, percent, complete, projectedDate, onTrack } = computeGoalProgress(
+              goal,
+              contributions,
+            );
+            const history = contributions
+              .filter((c) => c.goalId === goal.id)
+              .sort((a, b) => b.date.localeCompare(a.date));
+            const daysLeft = goal.targetDate ? daysUntil(goal.targetDate) : null;
+
+            return (
+              <motion.div
+                key={goal.id}
+                className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="font-semibold">{goal.title}</h3>
+                    {goal.targetDate && daysLeft !== null && (
+                      <p className="text-sm text-muted-foreground">
+                        Target {formatDate(goal.targetDate)}
+                        {!complete &&
+                          (daysLeft >= 0 ? ` · ${daysLeft} days left` : ` · ${Math.abs(daysLeft)} days overdue`)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                      onClick={() => handleEdit(goal)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDeleteClick(goal)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="mt-4 space-y-2">
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-2xl font-bold">{formatMoney(saved)}</span>
+                    <span className="text-sm text-muted-foreground">of {formatMoney(goal.target)}</span>
+                  </div>
+                  <Progress value={percent} className="h-2" />
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {complete ? "Goal reached" : `${formatMoney(remaining)} to go`}
+                    </span>
+                    <span className="font-medium">{percent}%</span>
+                  </div>
+                  {!complete && (
+                    <p
+                      className={`text-sm ${
+                        onTrack === false ? "text-destructive" : onTrack ? "text-success" : "text-muted-foreground"
+                      }`}
+                    >
+                      {projectedDate
+                        ? `At this pace you'll reach it by ${formatDate(projectedDate)}${
+                            onTrack === false ? ", after the target date" : onTrack ? ", on track" : ""
+                          }`
+                        : "No recent contributions to project from"}
+                    </p>
+                  )}
+                </div>
+
+                <div className="mt-4 border-t pt-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium">Contributions</h4>
+                    <Button variant="outline" size="sm" onClick={() => handleContribute(goal)}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Contribute
+                    </Button>
+                  </div>
+                  {history.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nothing contributed yet.</p>
+                  ) : (
+                    <ul className="space-y-1 max-h-48 overflow-y-auto">
+                      {history.map((c) => (
+                        <li key={c.id} className="flex items-center justify-between text-sm">
+                          <div className="min-w-0">
+                            <span className="text-muted-foreground">{formatDate(c.date)}</span>
+                            {c.note && <span className="ml-2">{c.note}</span>}
+                            {c.transactionId && (
+                              <span
+                                className="ml-2 inline-flex items-center text-xs text-muted-foreground"
+                                title="Linked transaction"
+                              >
+                                <Link2 className="h-3 w-3 mr-1" />
+                                {descriptions.get(c.transactionId) ?? "Deleted transaction"}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-1">
+                            <span className={c.amount.amount < 0 ? "text-destructive" : "font-medium"}>
+                              {formatMoney(c.amount, { signDisplay: "always" })}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                              onClick={() => deleteContribution(c.id)}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      <GoalModal
+        open={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setSelectedGoal(null);
+        }}
+        goal={selectedGoal}
+      />
+
+      <ContributionModal
+        open={contributionOpen}
+        onClose={() => {
+          setContributionOpen(false);
+          setSelectedGoal(null);
+        }}
+        goal={selectedGoal}
+      />
+
+      <DeleteConfirmationDialog
+        open={deleteDialogOpen}
+        onClose={() => {
+          setDeleteDialogOpen(false);
+          setSelectedGoal(null);
+        }}
+        onConfirm={handleDeleteConfirm}
+        transactionDescription={selectedGoal?.title}
+        itemType="goal"
+      />
+    </div>
+  );
+};
+
+export default Goals;
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useRecurring } from "@/context/RecurringContext";
+import { useAccounts } from "@/context/AccountContext";
+import { TransactionModal } from "@/components/TransactionModal";
+import { RecurringRuleModal } from "@/components/RecurringRuleModal";
+import { DeleteConfirmationDialog } from "@/components/DeleteConfirmationDialog";
+import { CategoryList } from "@/components/CategoryLabel";
+import { Button } from "@/components/ui/button";
+import { describeSchedule, nextOccurrence, RecurringRule } from "@/lib/recurrence";
+import { formatMoney } from "@/lib/money";
+import { transactionCategories } from "@/lib/splits";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { motion } from "framer-motion";
+
+const Recurring = () => {
+  const { rules, deleteRule } = useRecurring();
+  const { accounts } = useAccounts();
+  const [addModalOpen, setAddModalOpen] = useState(false);
+  const [editModalOpen, setEditModalOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<RecurringRule | null>(null);
+
+  const accountName = (id: string) => accounts.find((a) => a.id === id)?.name ?? "Unknown account";
+
+  // Rules still producing transactions first, soonest occurrence first
+  const rows = rules
+    .map((rule) => ({ rule, next: nextOccurrence(rule, rule.generatedThrough ?? "") }))
+    .sort((a, b) => (a.next ?? "9999").localeCompare(b.next ?? "9999"));
+
+  const handleEdit = (rule: RecurringRule) => {
+    setSelectedRule(rule);
+    setEditModalOpen(true);
+  };
+
+  const handleDeleteClick = (rule: RecurringRule) => {
+    setSelectedRule(rule);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (selectedRule) {
+      deleteRule(selectedRule.id);
+    }
+    setSelectedRule(null);
+  };
+
+  return (
+    <div className="space-y-8 p-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Recurring</h1>
+          <p className="text-muted-foreground">
+            Transactions created automatically when they come due
+          </p>
+        </div>
+        <Button onClick={() => setAddModalOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Recurring
+        </Button>
+      </div>
+
+      {/* Rules Table */}
+      <motion.div
+        className="rounded-lg border bg-card text-card-foreground shadow-sm"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <div className="p-6">
+          {rows.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">
+                No recurring transactions yet. Turn on "Make recurring" when adding a transaction.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Description</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Schedule</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Next</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Account</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Amount</th>
+                    <th className="text-center py-3 px-4 font-medium text-muted-foreground">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ rule, next }, index) => {
+                    const { template } = rule;
+                    const sign = template.type === "income" ? "+" : template.type === "expense" ? "-" : "";
+                    return (
+                      <motion.tr
+                        key={rule.id}
+                        className="border-b hover:bg-accent/50 transition-colors"
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ delay: index * 0.05 }}
+                      >
+                        <td className="py-3 px-4">
+                          <p className="font-medium">{template.description || "Untitled"}</p>
+                          <div className="text-sm text-muted-foreground">
+                            <CategoryList ids={transactionCategories(template)} />
+                          </div>
+                        </td>
+                        <td className="py-3 px-4 text-sm">{describeSchedule(rule)}</td>
+                        <td className="py-3 px-4 text-sm text-muted-foreground">
+                          {next
+                            ? new Date(next).toLocaleDateString("en-US", {
+                                year: "numeric",
+                                month: "2-digit",
+                                day: "2-digit",
+                              })
+                            : "Ended"}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-muted-foreground">
+                          {accountName(template.accountId)}
+                          {template.type === "transfer" && ` → ${accountName(template.toAccountId ?? "")}`}
+                        </td>
+                        <td
+                          className={`py-3 px-4 text-right font-semibold ${
+                            template.type === "income"
+                              ? "text-green-600"
+                              : template.type === "expense"
+                                ? "text-red-600"
+                                : "text-muted-foreground"
+                          }`}
+                        >
+                          {sign}{formatMoney(template.amount)}
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex items-center justify-center space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                              onClick={() => handleEdit(rule)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              onClick={() => handleDeleteClick(rule)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      </motion.tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </motion.div>
+
+      <TransactionModal open={addModalOpen} onClose={() => setAddModalOpen(false)} defaultRecurring />
+
+      <RecurringRuleModal
+        open={editModalOpen}
+        onClose={() => {
+          setEditModalOpen(false);
+          setSelectedRule(null);
+        }}
+        rule={selectedRule}
+      />
+
+      <DeleteConfirmationDialog
+        open={deleteDialogOpen}
+        onClose={() => {
+          setDeleteDialogOpen(false);
+          setSelectedRule(null);
+        }}
+        onConfirm={handleDeleteConfirm}
+        transactionDescription={selectedRule?.template.description}
+        itemType="recurring transaction"
+      />
+    </div>
+  );
+};
+
+export default Recurring;
@@ -1,12 +1,26 @@
+import { useState } from "react";
 import { useTheme } from "@/context/ThemeContext";
+import { usePreferences } from "@/context/PreferencesContext";
+import { ExchangeRateTable } from "@/components/ExchangeRateTable";
+import { ImportWizard } from "@/components/ImportWizard";
+import { ExportDialog } from "@/components/ExportDialog";
+import { CategoryRulesSection } from "@/components/CategoryRulesSection";
+import { PayeesSection } from "@/components/PayeesSection";
+import { useTransactions } from "@/context/TransactionContext";
+import { SUPPORTED_CURRENCIES } from "@/lib/exchangeRates";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
-import { Download, User, Moon, Sun, Settings as SettingsIcon } from "lucide-react";
+import { Download, User, Moon, Sun, Settings as SettingsIcon, Coins, Upload } from "lucide-react";
 import { motion } from "framer-motion";
 
 const Settings = () => {
   const { theme, toggleTheme } = useTheme();
+  const { baseCurrency, budgetAlerts, setPreference } = usePreferences();
+  const { transactions } = useTransactions();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   // Mock settings data for display
   const settingsData = {
@@ -17,9 +31,7 @@ const Settings = () => {
     },
     preferences: {
       notifications: true,
-      autoBackup: false,
-      currency: "USD",
-      budgetAlerts: true
+      autoBackup: false
     }
   };
 
@@ -144,18 +156,64 @@ const Settings = () => {
                 Get notified when exceeding budgets
               </p>
             </div>
-            <Switch checked={settingsData.preferences.budgetAlerts} disabled />
+            <Switch
+              checked={budgetAlerts}
+              onCheckedChange={(checked) => setPreference("budgetAlerts", checked)}
+            />
           </div>
-          
+        </div>
+      </motion.div>
+
+      {/* Currencies */}
+      <motion.div
+        className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.35 }}
+      >
+        <div className="flex items-center space-x-4 mb-6">
+          <Coins className="h-8 w-8 text-muted-foreground" />
           <div>
-            <Label>Currency</Label>
-            <p className="text-sm text-muted-foreground mt-1">
-              Current: {settingsData.preferences.currency}
-            </p>
+            <h3 className="text-lg font-semibold">Currencies</h3>
+            <p className="text-sm text-muted-foreground">Base currency and exchange rates</p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="base-currency">Base Currency</Label>
+              <p className="text-sm text-muted-foreground">
+                Totals and charts are converted into this currency
+              </p>
+            </div>
+            <Select value={baseCurrency} onValueChange={(value) => setPreference("baseCurrency", value)}>
+              <SelectTrigger id="base-currency" className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Exchange Rates</Label>
+            <div className="mt-2">
+              <ExchangeRateTable />
+            </div>
           </div>
         </div>
       </motion.div>
 
+      <CategoryRulesSection />
+
+      <PayeesSection />
+
       {/* Data Management */}
       <motion.div
         className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
@@ -173,26 +231,36 @@ const Settings = () => {
         
         <div className="space-y-4">
           <div>
-            <Button variant="outline" disabled className="w-full sm:w-auto">
+            <Button variant="outline" onClick={() => setIsExportOpen(true)} className="w-full sm:w-auto">
               <Download className="h-4 w-4 mr-2" />
-              Export to CSV
+              Export Data
             </Button>
             <p className="text-sm text-muted-foreground mt-2">
-              Download your transaction data as a CSV file
+              Download all your transactions as CSV, JSON or QIF. To export part of them, filter the
+              Transactions page and use Export there.
             </p>
           </div>
           
           <div>
-            <Button variant="outline" disabled className="w-full sm:w-auto">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="w-full sm:w-auto">
+              <Upload className="h-4 w-4 mr-2" />
               Import Data
             </Button>
             <p className="text-sm text-muted-foreground mt-2">
-              Import transactions from a CSV file
+              Import transactions from a CSV, OFX/QFX or QIF file
             </p>
           </div>
         </div>
       </motion.div>
 
+      <ImportWizard open={isImportOpen} onClose={() => setIsImportOpen(false)} />
+      <ExportDialog
+        open={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        transactions={transactions}
+        scope="in total"
+      />
+
       {/* App Information */}
       <motion.div
         className="rounded-lg border bg-card text-card-foreground shadow-sm p-6"
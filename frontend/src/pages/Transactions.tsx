@@ -1,34 +1,88 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useTransactions } from "@/context/TransactionContext";
+import { useAttachments } from "@/context/AttachmentContext";
+import { useAccounts } from "@/context/AccountContext";
+import { useCategories } from "@/context/CategoryContext";
+import { usePayees } from "@/context/PayeeContext";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { TransactionModal } from "@/components/TransactionModal";
 import { DeleteConfirmationDialog } from "@/components/DeleteConfirmationDialog";
-import { Search, Filter, Pencil, Trash2 } from "lucide-react";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
+import { TransactionAmount } from "@/components/TransactionAmount";
+import { MissingRatesNotice } from "@/components/MissingRatesNotice";
+import { ExportDialog } from "@/components/ExportDialog";
+import { CategoryList } from "@/components/CategoryLabel";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { QueryInput } from "@/components/QueryInput";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { Filter, Pencil, Trash2, Paperclip, Download, CopyCheck } from "lucide-react";
+import { Link } from "react-router-dom";
 import { motion } from "framer-motion";
 import { Transaction } from "@/data/mockData";
+import { selectTotals } from "@/lib/analytics";
+import { formatMoney } from "@/lib/money";
+import { payeeOf } from "@/lib/payees";
+import { matchesQuery, parseQuery, QueryValues } from "@/lib/query";
+import { transactionCategories } from "@/lib/splits";
+import { collectTags, formatTag } from "@/lib/tags";
 
 const Transactions = () => {
-  const { transactions } = useTransactions();
+  const { transactions, isLoading, deleteTransaction } = useTransactions();
+  const { attachmentsFor, deleteAttachmentsFor } = useAttachments();
+  const { accounts } = useAccounts();
+  const { categories, getCategory } = useCategories();
+  const { payees } = usePayees();
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState("all");
   const [filterCategory, setFilterCategory] = useState("all");
+  const [filterTag, setFilterTag] = useState("all");
+  const [filterAccount, setFilterAccount] = useState("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [exportOpen, setExportOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
 
+  // The search box takes query syntax, e.g. "amount:>100 category:Food -tag:work"
+  const query = useMemo(() => parseQuery(searchTerm), [searchTerm]);
+
   // Filter transactions based on search and filters
-  const filteredTransactions = transactions.filter((t) => {
-    const matchesSearch = t.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      t.category.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = filterType === "all" || t.type === filterType;
-    const matchesCategory = filterCategory === "all" || t.category === filterCategory;
-    return matchesSearch && matchesType && matchesCategory;
-  });
+  const filteredTransactions = useMemo(() => {
+    const accountName = (id: string) => accounts.find((a) => a.id === id)?.name ?? "";
+    const payeeName = (t: Transaction) => (t.type === "transfer" ? undefined : payeeOf(t, payees)?.name);
+    const context = { getCategory, accountName, payeeName };
+    return transactions.filter((t) => {
+      const matchesSearch = matchesQuery(query.root, t, context);
+      const matchesType = filterType === "all" || t.type === filterType;
+      // A parent category also matches its subcategories
+      const matchesCategory = filterCategory === "all" ||
+        transactionCategories(t).some((id) => id === filterCategory || getCategory(id).parentId === filterCategory);
+      const matchesTag = filterTag === "all" || (t.tags ?? []).includes(filterTag);
+      const matchesAccount =
+        filterAccount === "all" || t.accountId === filterAccount || t.toAccountId === filterAccount;
+      // Dates are ISO strings, so they compare in calendar order
+      const matchesDate = (!dateFrom || t.date >= dateFrom) && (!dateTo || t.date <= dateTo);
+      return matchesSearch && matchesType && matchesCategory && matchesTag && matchesAccount && matchesDate;
+    });
+  }, [transactions, query, filterType, filterCategory, filterTag, filterAccount, dateFrom, dateTo, getCategory, accounts, payees]);
+  const converter = useBaseCurrency();
+  const { converted, missing } = converter.convertTransactions(filteredTransactions);
+  const filteredTotals = selectTotals(converted, converter.base);
 
-  // Get unique categories for filter dropdown
-  const categories = Array.from(new Set(transactions.map((t) => t.category)));
+  const tags = collectTags(transactions);
+  const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+  const queryValues: QueryValues = {
+    category: Array.from(new Set(categories.map((c) => c.name))),
+    tag: tags,
+    account: accounts.map((a) => a.name),
+    payee: payees.map((p) => p.name),
+    type: ["income", "expense", "transfer"],
+    currency: Array.from(new Set(transactions.map((t) => t.amount.currency))).sort(),
+  };
 
   const handleEdit = (transaction: Transaction) => {
     setSelectedTransaction(transaction);
@@ -41,8 +95,10 @@ const Transactions = () => {
   };
 
   const handleDeleteConfirm = () => {
-    // TODO: Implement delete functionality
-    console.log('Deleting transaction:', selectedTransaction?.id);
+    if (selectedTransaction) {
+      deleteTransaction(selectedTransaction.id);
+      deleteAttachmentsFor(selectedTransaction.id);
+    }
     setSelectedTransaction(null);
   };
 
@@ -54,25 +110,51 @@ const Transactions = () => {
   return (
     <div className="space-y-6 p-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Transactions</h1>
-        <p className="text-muted-foreground">
-          View and browse your financial transactions
-        </p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Transactions</h1>
+          <p className="text-muted-foreground">
+            View and browse your financial transactions
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/duplicates">
+              <CopyCheck className="h-4 w-4 mr-2" />
+              Find Duplicates
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={() => setExportOpen(true)} disabled={filteredTransactions.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-          <Input
-            placeholder="Search transactions..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-9"
-          />
-        </div>
-        <div className="flex gap-2">
+        <QueryInput
+          placeholder="Search, e.g. amount:>100 category:Food -tag:work"
+          value={searchTerm}
+          onChange={setSearchTerm}
+          tokens={query.tokens}
+          errors={query.errors}
+          values={queryValues}
+        />
+        <div className="flex flex-wrap gap-2">
+          <Select value={filterAccount} onValueChange={setFilterAccount}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Account" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Accounts</SelectItem>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Select value={filterType} onValueChange={setFilterType}>
             <SelectTrigger className="w-40">
               <Filter className="h-4 w-4 mr-2" />
@@ -82,6 +164,7 @@ const Transactions = () => {
               <SelectItem value="all">All Types</SelectItem>
               <SelectItem value="income">Income</SelectItem>
               <SelectItem value="expense">Expense</SelectItem>
+              <SelectItem value="transfer">Transfer</SelectItem>
             </SelectContent>
           </Select>
           <Select value={filterCategory} onValueChange={setFilterCategory}>
@@ -90,13 +173,38 @@ const Transactions = () => {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Categories</SelectItem>
-              {categories.map((category) => (
-                <SelectItem key={category} value={category}>
-                  {category}
+              <CategoryOptions categories={categories} />
+            </SelectContent>
+          </Select>
+          <Select value={filterTag} onValueChange={setFilterTag}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Tags</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag} value={tag}>
+                  {formatTag(tag)}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
+          <Input
+            type="date"
+            aria-label="From date"
+            value={dateFrom}
+            max={dateTo || undefined}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="w-40"
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            value={dateTo}
+            min={dateFrom || undefined}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="w-40"
+          />
         </div>
       </div>
 
@@ -110,7 +218,11 @@ const Transactions = () => {
         <div className="p-6">
           <h3 className="text-lg font-semibold mb-4">Recent Transactions</h3>
           
-          {filteredTransactions.length === 0 ? (
+          {isLoading ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">Loading transactions...</p>
+            </div>
+          ) : filteredTransactions.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-muted-foreground">No transactions found</p>
             </div>
@@ -122,6 +234,7 @@ const Transactions = () => {
                     <th className="text-left py-3 px-4 font-medium text-muted-foreground">Date</th>
                     <th className="text-left py-3 px-4 font-medium text-muted-foreground">Description</th>
                     <th className="text-left py-3 px-4 font-medium text-muted-foreground">Category</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Account</th>
                     <th className="text-right py-3 px-4 font-medium text-muted-foreground">Amount</th>
                     <th className="text-center py-3 px-4 font-medium text-muted-foreground">Actions</th>
                   </tr>
@@ -143,17 +256,38 @@ const Transactions = () => {
                         })}
                       </td>
                       <td className="py-3 px-4 font-medium">
-                        {transaction.description}
+                        <div className="flex items-center gap-2">
+                          {transaction.description}
+                          {attachmentsFor(transaction.id).length > 0 && (
+                            <Paperclip className="h-3.5 w-3.5 text-muted-foreground" aria-label="Has attachments" />
+                          )}
+                          <SyncStatusBadge status={transaction.syncStatus} />
+                        </div>
+                        {transaction.tags && transaction.tags.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {transaction.tags.map((tag) => (
+                              <Badge
+                                key={tag}
+                                variant="outline"
+                                className="cursor-pointer font-normal"
+                                onClick={() => setFilterTag(tag)}
+                              >
+                                {formatTag(tag)}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </td>
                       <td className="py-3 px-4 text-sm">
-                        {transaction.category}
+                        <CategoryList ids={transactionCategories(transaction)} />
+                      </td>
+                      <td className="py-3 px-4 text-sm text-muted-foreground">
+                        {accountNames.get(transaction.accountId) ?? "Unknown account"}
+                        {transaction.type === "transfer" &&
+                          ` → ${accountNames.get(transaction.toAccountId ?? "") ?? "Unknown account"}`}
                       </td>
                       <td className="py-3 px-4 text-right">
-                        <span className={`font-semibold ${
-                          transaction.type === "income" ? "text-green-600" : "text-red-600"
-                        }`}>
-                          {transaction.type === "income" ? "+" : "-"}${transaction.amount.toLocaleString()}
-                        </span>
+                        <TransactionAmount transaction={transaction} />
                       </td>
                       <td className="py-3 px-4">
                         <div className="flex items-center justify-center space-x-2">
@@ -185,6 +319,7 @@ const Transactions = () => {
       </motion.div>
 
       {/* Summary */}
+      <MissingRatesNotice count={missing} />
       <motion.div
         className="grid gap-4 md:grid-cols-3"
         initial={{ opacity: 0, y: 20 }}
@@ -198,19 +333,13 @@ const Transactions = () => {
         <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-4">
           <p className="text-sm text-muted-foreground">Total Income</p>
           <p className="text-2xl font-bold text-green-600">
-            +${filteredTransactions
-              .filter(t => t.type === "income")
-              .reduce((sum, t) => sum + t.amount, 0)
-              .toLocaleString()}
+            +{formatMoney(filteredTotals.income)}
           </p>
         </div>
         <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-4">
           <p className="text-sm text-muted-foreground">Total Expenses</p>
           <p className="text-2xl font-bold text-red-600">
-            -${filteredTransactions
-              .filter(t => t.type === "expense")
-              .reduce((sum, t) => sum + t.amount, 0)
-              .toLocaleString()}
+            -{formatMoney(filteredTotals.expenses)}
           </p>
         </div>
       </motion.div>
@@ -232,6 +361,13 @@ const Transactions = () => {
         onConfirm={handleDeleteConfirm}
         transactionDescription={selectedTransaction?.description}
       />
+
+      <ExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        transactions={filteredTransactions}
+        scope="matching the current filters"
+      />
     </div>
   );
 };
@@ -0,0 +1,155 @@
+import { Transaction } from "@/data/mockData";
+import { DEFAULT_CURRENCY, fromMajor, toMajor } from "@/lib/money";
+import { DEFAULT_ACCOUNT_ID } from "@/lib/accounts";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+// Shape of a transaction document as the backend returns it.
+// The backend keeps amounts as decimal major units (dollars, not cents).
+export type ApiTransaction = {
+  _id: string;
+  type: Transaction["type"];
+  accountId?: string;
+  // Only meaningful on transfers; null clears a stale value when a transfer is edited into something else
+  toAccountId?: string | null;
+  amount: number;
+  currency?: string;
+  category: string;
+  date: string;
+  description?: string;
+  // Amounts in major units and in the parent's currency, like `amount`
+  splits?: { category: string; amount: number; memo?: string }[];
+  tags?: string[];
+  recurringRuleId?: string | null;
+  importId?: string | null;
+  payeeId?: string | null;
+  __v?: number;
+};
+
+// Body accepted by POST/PUT - the backend assigns _id itself
+export type ApiTransactionInput = Omit<ApiTransaction, "_id" | "__v">;
+
+// Upload body for an attachment; the file is base64-encoded
+export type ApiAttachmentInput = {
+  transactionId: string;
+  name: string;
+  type: string;
+  data: string;
+};
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+// Helper for JSON requests - throws ApiError on non-2xx responses
+const fetchAPI = async <T,>(endpoint: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_URL}${endpoint}`, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new ApiError(data?.error || data?.message || response.statusText, response.status);
+  }
+
+  return data as T;
+};
+
+// Mongo documents carry _id and a full ISO date; the UI works with id and yyyy-mm-dd
+export const fromApiTransaction = (doc: ApiTransaction): Transaction => ({
+  id: doc._id,
+  remoteId: doc._id,
+  syncStatus: "synced",
+  type: doc.type,
+  accountId: doc.accountId ?? DEFAULT_ACCOUNT_ID,
+  toAccountId: doc.type === "transfer" ? doc.toAccountId ?? undefined : undefined,
+  amount: fromMajor(doc.amount, doc.currency ?? DEFAULT_CURRENCY),
+  category: doc.category,
+  date: doc.date.slice(0, 10),
+  description: doc.description ?? "",
+  splits: doc.splits?.length
+    ? doc.splits.map((line) => ({
+        category: line.category,
+        amount: fromMajor(line.amount, doc.currency ?? DEFAULT_CURRENCY),
+        ...(line.memo && { memo: line.memo }),
+      }))
+    : undefined,
+  tags: doc.tags?.length ? doc.tags : undefined,
+  recurringRuleId: doc.recurringRuleId ?? undefined,
+  importId: doc.importId ?? undefined,
+  payeeId: doc.payeeId ?? undefined,
+});
+
+export const toApiTransaction = (transaction: Omit<Transaction, "id">): ApiTransactionInput => ({
+  type: transaction.type,
+  accountId: transaction.accountId,
+  toAccountId: transaction.type === "transfer" ? transaction.toAccountId : null,
+  amount: toMajor(transaction.amount),
+  currency: transaction.amount.currency,
+  category: transaction.category,
+  date: transaction.date,
+  description: transaction.description,
+  // Always sent so that removing every line on edit clears them on the server too
+  splits: (transaction.splits ?? []).map((line) => ({
+    category: line.category,
+    amount: toMajor(line.amount),
+    memo: line.memo,
+  })),
+  tags: transaction.tags ?? [],
+  recurringRuleId: transaction.recurringRuleId ?? null,
+  importId: transaction.importId ?? null,
+  payeeId: transaction.payeeId ?? null,
+});
+
+export const transactionAPI = {
+  getAll: async (): Promise<Transaction[]> => {
+    const docs = await fetchAPI<ApiTransaction[]>("/transactions");
+    return docs.map(fromApiTransaction);
+  },
+
+  create: async (transaction: Omit<Transaction, "id">): Promise<Transaction> => {
+    const doc = await fetchAPI<ApiTransaction>("/transactions", {
+      method: "POST",
+      body: JSON.stringify(toApiTransaction(transaction)),
+    });
+    return fromApiTransaction(doc);
+  },
+
+  update: async (remoteId: string, transaction: Omit<Transaction, "id">): Promise<Transaction> => {
+    const doc = await fetchAPI<ApiTransaction>(`/transactions/${remoteId}`, {
+      method: "PUT",
+      body: JSON.stringify(toApiTransaction(transaction)),
+    });
+    return fromApiTransaction(doc);
+  },
+
+  delete: async (remoteId: string): Promise<void> => {
+    await fetchAPI<{ message: string }>(`/transactions/${remoteId}`, { method: "DELETE" });
+  },
+};
+
+export const attachmentAPI = {
+  // Returns the id the backend assigned
+  upload: async (attachment: ApiAttachmentInput): Promise<string> => {
+    const doc = await fetchAPI<{ _id: string }>("/attachments", {
+      method: "POST",
+      body: JSON.stringify(attachment),
+    });
+    return doc._id;
+  },
+
+  delete: async (remoteId: string): Promise<void> => {
+    await fetchAPI<{ message: string }>(`/attachments/${remoteId}`, { method: "DELETE" });
+  },
+};